@@ -0,0 +1,437 @@
+// ./src/config.ts
+import dotenv from 'dotenv';
+import { existsSync, readFileSync } from 'node:fs';
+
+export interface PlatformConfig {
+    enabled: boolean;
+    /** User agents picked at random for each request */
+    userAgents: string[];
+    /** Netscape cookie file sent with every request to the platform */
+    cookieFile?: string;
+    /** Items of a batch extracted at the same time for this platform */
+    batchConcurrency: number;
+}
+
+export interface YouTubeConfig extends PlatformConfig {
+    /** InnerTube clients asked by the player API, in order of preference */
+    playerClients: string[];
+    /** Take formats from the player API instead of the watch page */
+    playerApiPrimary: boolean;
+}
+
+export interface TikTokConfig extends PlatformConfig {
+    /** Host of the mobile feed API used as a last-resort fallback */
+    apiHost: string;
+    apiUserAgent: string;
+}
+
+export interface TwitterConfig extends PlatformConfig {
+    /** Bearer token of the web app, used to get guest tokens and read posts */
+    bearerToken: string;
+}
+
+export interface Config {
+    server: {
+        host: string;
+        port: number;
+    };
+    http: {
+        /** Timeout in milliseconds for outbound requests to platforms */
+        timeout: number;
+        /** Retries on network errors, 429 and 5xx responses */
+        retries: number;
+        /** Base backoff in milliseconds, doubled after every retry */
+        retryDelay: number;
+        /** Proxy URLs (http://, https:// or socks5://) for outbound requests */
+        proxies: string[];
+    };
+    platforms: {
+        youtube: YouTubeConfig;
+        tiktok: TikTokConfig;
+        vimeo: PlatformConfig;
+        twitter: TwitterConfig;
+        reddit: PlatformConfig;
+    };
+    cache: {
+        enabled: boolean;
+        backend: 'memory' | 'file';
+        /** Directory used by the file backend */
+        directory: string;
+        /** TTL in seconds when nothing better is known */
+        defaultTtl: number;
+    };
+    rateLimit: {
+        enabled: boolean;
+        trustProxy: boolean;
+        /** Seconds an extraction may wait for an outbound slot */
+        maxOutboundWait: number;
+    };
+    cookies: {
+        /** Write Set-Cookie updates back to the cookie files */
+        persist: boolean;
+    };
+    batch: {
+        /** Largest number of items accepted in one batch request */
+        maxItems: number;
+        /** Items of a batch extracted at the same time across all platforms */
+        concurrency: number;
+    };
+    download: {
+        /**
+         * Largest merged download in bytes, video and audio together. Both
+         * streams and the muxed output are held in memory while merging.
+         */
+        maxMergeSize: number;
+    };
+    jobs: {
+        /** Directory holding the job store and downloaded files */
+        directory: string;
+        /** Downloads running at the same time */
+        concurrency: number;
+        /** Attempts per job before transient upstream errors fail it */
+        maxAttempts: number;
+        /** Seconds finished jobs and their files are kept, 0 keeps them forever */
+        retention: number;
+    };
+}
+
+export class ConfigError extends Error {
+    constructor(readonly problems: string[]) {
+        super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+        this.name = 'ConfigError';
+    }
+}
+
+const defaults: Config = {
+    server: {
+        host: '0.0.0.0',
+        port: 3000
+    },
+    http: {
+        timeout: 15000,
+        retries: 2,
+        retryDelay: 500,
+        proxies: []
+    },
+    platforms: {
+        youtube: {
+            enabled: true,
+            userAgents: [
+                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+                'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+            ],
+            batchConcurrency: 4,
+            playerClients: ['android', 'ios', 'web'],
+            playerApiPrimary: false
+        },
+        tiktok: {
+            enabled: true,
+            userAgents: [
+                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+            ],
+            apiHost: 'api16-normal-c-useast1a.tiktokv.com',
+            apiUserAgent: 'TikTok 26.2.0 rv:262018 (iPhone; iOS 14.4.2; en_US) Cronet',
+            batchConcurrency: 2
+        },
+        vimeo: {
+            enabled: true,
+            userAgents: [
+                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+            ],
+            batchConcurrency: 2
+        },
+        twitter: {
+            enabled: true,
+            userAgents: [
+                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+            ],
+            bearerToken: 'AAAAAAAAAAAAAAAAAAAAANRILgAAAAAAnNwIzUejRCOuH5E6I8xnZz4puTs%3D1Zv7ttfk8LF81IUq16cHjhLTvJu4FA33AGWWjCpTnA',
+            batchConcurrency: 2
+        },
+        reddit: {
+            enabled: true,
+            userAgents: [
+                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+            ],
+            batchConcurrency: 2
+        }
+    },
+    cache: {
+        enabled: true,
+        backend: 'memory',
+        directory: '.cache/extract',
+        defaultTtl: 300
+    },
+    rateLimit: {
+        enabled: true,
+        trustProxy: false,
+        maxOutboundWait: 10
+    },
+    cookies: {
+        persist: true
+    },
+    batch: {
+        maxItems: 100,
+        concurrency: 4
+    },
+    download: {
+        maxMergeSize: 512 * 1024 * 1024
+    },
+    jobs: {
+        directory: 'data/jobs',
+        concurrency: 2,
+        maxAttempts: 3,
+        retention: 24 * 60 * 60
+    }
+};
+
+type Env = Record<string, string | undefined>;
+
+// Environment variables and the config path they override, with their type.
+// Lists are comma separated, user agent lists use '|' as they contain commas.
+const ENV_MAPPING: [string, string, 'string' | 'number' | 'boolean' | 'list' | 'agents'][] = [
+    ['HOST', 'server.host', 'string'],
+    ['PORT', 'server.port', 'number'],
+    ['MDU_HTTP_TIMEOUT', 'http.timeout', 'number'],
+    ['MDU_HTTP_RETRIES', 'http.retries', 'number'],
+    ['MDU_HTTP_RETRY_DELAY', 'http.retryDelay', 'number'],
+    ['MDU_PROXIES', 'http.proxies', 'list'],
+    ['MDU_YOUTUBE_ENABLED', 'platforms.youtube.enabled', 'boolean'],
+    ['MDU_YOUTUBE_USER_AGENTS', 'platforms.youtube.userAgents', 'agents'],
+    ['MDU_YOUTUBE_COOKIES', 'platforms.youtube.cookieFile', 'string'],
+    ['MDU_YOUTUBE_BATCH_CONCURRENCY', 'platforms.youtube.batchConcurrency', 'number'],
+    ['MDU_YOUTUBE_PLAYER_CLIENTS', 'platforms.youtube.playerClients', 'list'],
+    ['MDU_YOUTUBE_PLAYER_API_PRIMARY', 'platforms.youtube.playerApiPrimary', 'boolean'],
+    ['MDU_TIKTOK_ENABLED', 'platforms.tiktok.enabled', 'boolean'],
+    ['MDU_TIKTOK_USER_AGENTS', 'platforms.tiktok.userAgents', 'agents'],
+    ['MDU_TIKTOK_COOKIES', 'platforms.tiktok.cookieFile', 'string'],
+    ['MDU_TIKTOK_BATCH_CONCURRENCY', 'platforms.tiktok.batchConcurrency', 'number'],
+    ['MDU_TIKTOK_API_HOST', 'platforms.tiktok.apiHost', 'string'],
+    ['MDU_TIKTOK_API_USER_AGENT', 'platforms.tiktok.apiUserAgent', 'string'],
+    ['MDU_VIMEO_ENABLED', 'platforms.vimeo.enabled', 'boolean'],
+    ['MDU_VIMEO_USER_AGENTS', 'platforms.vimeo.userAgents', 'agents'],
+    ['MDU_VIMEO_COOKIES', 'platforms.vimeo.cookieFile', 'string'],
+    ['MDU_VIMEO_BATCH_CONCURRENCY', 'platforms.vimeo.batchConcurrency', 'number'],
+    ['MDU_TWITTER_ENABLED', 'platforms.twitter.enabled', 'boolean'],
+    ['MDU_TWITTER_USER_AGENTS', 'platforms.twitter.userAgents', 'agents'],
+    ['MDU_TWITTER_COOKIES', 'platforms.twitter.cookieFile', 'string'],
+    ['MDU_TWITTER_BATCH_CONCURRENCY', 'platforms.twitter.batchConcurrency', 'number'],
+    ['MDU_TWITTER_BEARER_TOKEN', 'platforms.twitter.bearerToken', 'string'],
+    ['MDU_REDDIT_ENABLED', 'platforms.reddit.enabled', 'boolean'],
+    ['MDU_REDDIT_USER_AGENTS', 'platforms.reddit.userAgents', 'agents'],
+    ['MDU_REDDIT_COOKIES', 'platforms.reddit.cookieFile', 'string'],
+    ['MDU_REDDIT_BATCH_CONCURRENCY', 'platforms.reddit.batchConcurrency', 'number'],
+    ['MDU_CACHE_ENABLED', 'cache.enabled', 'boolean'],
+    ['MDU_CACHE_BACKEND', 'cache.backend', 'string'],
+    ['MDU_CACHE_DIR', 'cache.directory', 'string'],
+    ['MDU_CACHE_TTL', 'cache.defaultTtl', 'number'],
+    ['MDU_RATE_LIMIT_ENABLED', 'rateLimit.enabled', 'boolean'],
+    ['MDU_TRUST_PROXY', 'rateLimit.trustProxy', 'boolean'],
+    ['MDU_MAX_OUTBOUND_WAIT', 'rateLimit.maxOutboundWait', 'number'],
+    ['MDU_COOKIES_PERSIST', 'cookies.persist', 'boolean'],
+    ['MDU_BATCH_MAX_ITEMS', 'batch.maxItems', 'number'],
+    ['MDU_BATCH_CONCURRENCY', 'batch.concurrency', 'number'],
+    ['MDU_MAX_MERGE_SIZE', 'download.maxMergeSize', 'number'],
+    ['MDU_JOBS_DIR', 'jobs.directory', 'string'],
+    ['MDU_JOBS_CONCURRENCY', 'jobs.concurrency', 'number'],
+    ['MDU_JOBS_MAX_ATTEMPTS', 'jobs.maxAttempts', 'number'],
+    ['MDU_JOBS_RETENTION', 'jobs.retention', 'number']
+];
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function merge(target: Record<string, any>, source: Record<string, any>, path: string, problems: string[]): void {
+    for (const [key, value] of Object.entries(source)) {
+        const keyPath = path ? `${path}.${key}` : key;
+        if (!(key in target)) {
+            // Optional keys such as cookieFile have no default to compare against
+            if (key === 'cookieFile') {
+                target[key] = value;
+            } else {
+                problems.push(`${keyPath}: unknown setting`);
+            }
+        } else if (isObject(target[key])) {
+            if (isObject(value)) {
+                merge(target[key], value, keyPath, problems);
+            } else {
+                problems.push(`${keyPath}: expected an object`);
+            }
+        } else {
+            target[key] = value;
+        }
+    }
+}
+
+function setPath(target: Record<string, any>, path: string, value: unknown): void {
+    const keys = path.split('.');
+    const last = keys.pop()!;
+    let current = target;
+    for (const key of keys) {
+        current = current[key];
+    }
+    current[last] = value;
+}
+
+// Returns undefined and records a problem when the value can't be parsed
+function parseEnvValue(name: string, raw: string, type: string, problems: string[]): unknown {
+    switch (type) {
+        case 'number': {
+            const value = Number(raw);
+            if (raw.trim() === '' || isNaN(value)) {
+                problems.push(`${name}: expected a number, got '${raw}'`);
+                return undefined;
+            }
+            return value;
+        }
+        case 'boolean':
+            if (!['true', 'false', '1', '0'].includes(raw.toLowerCase())) {
+                problems.push(`${name}: expected true or false, got '${raw}'`);
+                return undefined;
+            }
+            return raw.toLowerCase() === 'true' || raw === '1';
+        case 'list':
+        case 'agents':
+            return raw.split(type === 'list' ? ',' : '|').map(item => item.trim()).filter(Boolean);
+        default:
+            return raw;
+    }
+}
+
+function validate(config: Config, problems: string[]): void {
+    const expectNumber = (path: string, value: unknown, min: number, max = Infinity) => {
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+            problems.push(`${path}: expected a number between ${min} and ${max}, got ${JSON.stringify(value)}`);
+        }
+    };
+    const expectString = (path: string, value: unknown) => {
+        if (typeof value !== 'string' || value.length === 0) {
+            problems.push(`${path}: expected a non-empty string`);
+        }
+    };
+    const expectBoolean = (path: string, value: unknown) => {
+        if (typeof value !== 'boolean') {
+            problems.push(`${path}: expected true or false`);
+        }
+    };
+
+    expectString('server.host', config.server.host);
+    expectNumber('server.port', config.server.port, 0, 65535);
+    expectNumber('http.timeout', config.http.timeout, 1);
+    expectNumber('http.retries', config.http.retries, 0, 10);
+    expectNumber('http.retryDelay', config.http.retryDelay, 0);
+
+    if (!Array.isArray(config.http.proxies)) {
+        problems.push('http.proxies: expected a list of proxy URLs');
+    } else {
+        for (const proxy of config.http.proxies) {
+            try {
+                const { protocol } = new URL(proxy);
+                if (!['http:', 'https:', 'socks:', 'socks4:', 'socks5:'].includes(protocol)) {
+                    problems.push(`http.proxies: unsupported proxy protocol '${protocol}' in ${proxy}`);
+                }
+            } catch {
+                problems.push(`http.proxies: invalid proxy URL '${proxy}'`);
+            }
+        }
+    }
+
+    for (const [name, platform] of Object.entries(config.platforms)) {
+        expectBoolean(`platforms.${name}.enabled`, platform.enabled);
+        if (!Array.isArray(platform.userAgents) || platform.userAgents.length === 0) {
+            problems.push(`platforms.${name}.userAgents: expected a non-empty list of user agents`);
+        } else {
+            platform.userAgents.forEach((agent, index) => expectString(`platforms.${name}.userAgents[${index}]`, agent));
+        }
+        if (platform.cookieFile !== undefined) {
+            if (typeof platform.cookieFile !== 'string' || !existsSync(platform.cookieFile)) {
+                problems.push(`platforms.${name}.cookieFile: file not found: ${platform.cookieFile}`);
+            }
+        }
+        expectNumber(`platforms.${name}.batchConcurrency`, platform.batchConcurrency, 1, 50);
+    }
+    const { playerClients } = config.platforms.youtube;
+    if (!Array.isArray(playerClients) || playerClients.length === 0) {
+        problems.push('platforms.youtube.playerClients: expected a non-empty list of clients');
+    } else {
+        for (const client of playerClients) {
+            if (!['web', 'android', 'ios', 'tv_embedded'].includes(client)) {
+                problems.push(`platforms.youtube.playerClients: expected web, android, ios or tv_embedded, got '${client}'`);
+            }
+        }
+    }
+    expectBoolean('platforms.youtube.playerApiPrimary', config.platforms.youtube.playerApiPrimary);
+    expectString('platforms.tiktok.apiHost', config.platforms.tiktok.apiHost);
+    expectString('platforms.tiktok.apiUserAgent', config.platforms.tiktok.apiUserAgent);
+    expectString('platforms.twitter.bearerToken', config.platforms.twitter.bearerToken);
+
+    expectBoolean('cache.enabled', config.cache.enabled);
+    if (!['memory', 'file'].includes(config.cache.backend)) {
+        problems.push(`cache.backend: expected 'memory' or 'file', got '${config.cache.backend}'`);
+    }
+    expectString('cache.directory', config.cache.directory);
+    expectNumber('cache.defaultTtl', config.cache.defaultTtl, 0);
+
+    expectBoolean('rateLimit.enabled', config.rateLimit.enabled);
+    expectBoolean('rateLimit.trustProxy', config.rateLimit.trustProxy);
+    expectNumber('rateLimit.maxOutboundWait', config.rateLimit.maxOutboundWait, 0);
+
+    expectBoolean('cookies.persist', config.cookies.persist);
+
+    expectNumber('batch.maxItems', config.batch.maxItems, 1, 10000);
+    expectNumber('batch.concurrency', config.batch.concurrency, 1, 50);
+
+    expectNumber('download.maxMergeSize', config.download.maxMergeSize, 1024 * 1024);
+
+    expectString('jobs.directory', config.jobs.directory);
+    expectNumber('jobs.concurrency', config.jobs.concurrency, 1, 20);
+    expectNumber('jobs.maxAttempts', config.jobs.maxAttempts, 1, 10);
+    expectNumber('jobs.retention', config.jobs.retention, 0);
+}
+
+/**
+ * Build the configuration from defaults, an optional JSON config file and
+ * environment variables (highest precedence)
+ * @param env Environment to read, defaults to process.env after loading .env
+ * @returns Validated Config
+ * @throws ConfigError listing every invalid setting
+ */
+export function loadConfig(env: Env = process.env): Config {
+    const config: Config = structuredClone(defaults);
+    const problems: string[] = [];
+
+    const configFile = env.MDU_CONFIG || (existsSync('mdu.config.json') ? 'mdu.config.json' : undefined);
+    if (configFile) {
+        try {
+            const fileConfig = JSON.parse(readFileSync(configFile, 'utf8'));
+            if (isObject(fileConfig)) {
+                merge(config, fileConfig, '', problems);
+            } else {
+                problems.push(`${configFile}: expected a JSON object`);
+            }
+        } catch (error) {
+            problems.push(`${configFile}: ${error instanceof Error ? error.message : 'could not be read'}`);
+        }
+    }
+
+    for (const [name, path, type] of ENV_MAPPING) {
+        const raw = env[name];
+        const value = raw !== undefined ? parseEnvValue(name, raw, type, problems) : undefined;
+        if (value !== undefined) {
+            setPath(config, path, value);
+        }
+    }
+
+    validate(config, problems);
+    if (problems.length > 0) {
+        throw new ConfigError(problems);
+    }
+
+    return config;
+}
+
+dotenv.config();
+
+export const config = loadConfig();
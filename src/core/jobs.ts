@@ -0,0 +1,403 @@
+// ./src/core/jobs.ts
+import { randomUUID } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, rename, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { config } from '../config';
+import { openDownload } from '../processor/download';
+import { getSupportedPlatforms } from '../processor/extractvideo';
+import { parseFormatSelector } from '../processor/formatselector';
+import { findExtractor } from '../processor/platform';
+import {
+    InvalidRequestError,
+    JobNotFoundError,
+    JobStateError,
+    UnsupportedPlatformError,
+    UpstreamError,
+    wrapError
+} from '../processor/errors';
+import { createFileJobStore, type Job, type JobRequest, type JobState, type JobStore } from './jobstore';
+
+export type { Job, JobRequest, JobState } from './jobstore';
+
+export interface JobOptions {
+    store: JobStore;
+    /** Directory downloaded files are written to */
+    fileDirectory: string;
+    concurrency: number;
+    maxAttempts: number;
+    /** Seconds finished jobs and their files are kept, 0 keeps them forever */
+    retention: number;
+}
+
+export interface JobFile {
+    fileName: string;
+    mimeType: string;
+    size: number;
+    body: ReadableStream;
+}
+
+// Errors worth another attempt, anything else fails the job right away
+const RETRYABLE_CODES = ['UPSTREAM_ERROR', 'UPSTREAM_TIMEOUT', 'RATE_LIMITED'];
+
+// Base delay before a failed attempt is retried, multiplied by the attempt number
+const RETRY_DELAY_MS = 5000;
+
+// Progress is written to the store at most this often while downloading
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+
+// How often finished jobs are checked against the retention
+const EXPIRY_INTERVAL_MS = 10 * 60 * 1000;
+
+const FINISHED_STATES: JobState[] = ['completed', 'failed', 'cancelled'];
+
+const options: JobOptions = {
+    store: createFileJobStore(config.jobs.directory),
+    fileDirectory: path.join(config.jobs.directory, 'files'),
+    concurrency: config.jobs.concurrency,
+    maxAttempts: config.jobs.maxAttempts,
+    retention: config.jobs.retention
+};
+
+const jobs = new Map<string, Job>();
+
+// Abort controllers of the running downloads
+const running = new Map<string, AbortController>();
+
+let started = false;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+export function configureJobs(overrides: Partial<JobOptions>): void {
+    Object.assign(options, overrides);
+}
+
+/**
+ * Load the job store and start the workers. Jobs interrupted by a restart
+ * are queued again and download from the start. Finished jobs are removed
+ * with their files once they're older than the retention.
+ */
+export async function startJobs(): Promise<void> {
+    if (started) return;
+    started = true;
+
+    for (const job of await options.store.load()) {
+        if (job.state === 'running') {
+            job.state = 'queued';
+            job.progress = 0;
+            job.bytesDownloaded = 0;
+            await rm(partialPath(job), { force: true });
+        }
+        jobs.set(job.id, job);
+    }
+
+    await persist();
+    await expireJobs();
+    setInterval(() => expireJobs().catch(error => console.error('Failed to expire jobs:', error)), EXPIRY_INTERVAL_MS).unref();
+    pump();
+}
+
+/**
+ * Queue a download
+ * @param request URL and format selection, same meaning as /download
+ * @returns Job as it was queued, a free worker may already be running it
+ * @throws UnsupportedPlatformError when no extractor handles the URL
+ */
+export async function createJob(request: JobRequest): Promise<Job> {
+    if (!request.url) {
+        throw new InvalidRequestError('URL is required');
+    }
+    // Fail now rather than when a worker picks the job up
+    if (!findExtractor(request.url)) {
+        throw new UnsupportedPlatformError(`Unsupported platform. Currently supports: ${getSupportedPlatforms()}`);
+    }
+    if (request.select) {
+        parseFormatSelector(request.select);
+    }
+
+    const now = Date.now();
+    const job: Job = {
+        id: randomUUID(),
+        request,
+        state: 'queued',
+        progress: 0,
+        bytesDownloaded: 0,
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now
+    };
+    jobs.set(job.id, job);
+
+    await persist();
+    // pump() may start the job right away
+    const queued = { ...job };
+    pump();
+    return queued;
+}
+
+export function getJob(id: string): Job {
+    const job = jobs.get(id);
+    if (!job) {
+        throw new JobNotFoundError(id);
+    }
+    return { ...job };
+}
+
+export function listJobs(): Job[] {
+    return [...jobs.values()]
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map(job => ({ ...job }));
+}
+
+/**
+ * Stop a queued or running job, partial files are removed
+ */
+export async function cancelJob(id: string): Promise<Job> {
+    const job = jobs.get(id);
+    if (!job) {
+        throw new JobNotFoundError(id);
+    }
+    if (job.state !== 'queued' && job.state !== 'running') {
+        throw new JobStateError(`Job ${id} is ${job.state} and can't be cancelled`);
+    }
+
+    running.get(id)?.abort();
+    updateJob(job, { state: 'cancelled', notBefore: undefined });
+    await persist();
+    return { ...job };
+}
+
+/**
+ * Queue a failed or cancelled job again with a fresh set of attempts
+ */
+export async function retryJob(id: string): Promise<Job> {
+    const job = jobs.get(id);
+    if (!job) {
+        throw new JobNotFoundError(id);
+    }
+    if (job.state !== 'failed' && job.state !== 'cancelled') {
+        throw new JobStateError(`Only failed or cancelled jobs can be retried, job ${id} is ${job.state}`);
+    }
+
+    updateJob(job, {
+        state: 'queued',
+        progress: 0,
+        bytesDownloaded: 0,
+        totalBytes: undefined,
+        attempts: 0,
+        error: undefined,
+        notBefore: undefined
+    });
+    await persist();
+    pump();
+    return { ...job };
+}
+
+/**
+ * Remove a job and its file, running jobs are cancelled first
+ */
+export async function deleteJob(id: string): Promise<void> {
+    const job = jobs.get(id);
+    if (!job) {
+        throw new JobNotFoundError(id);
+    }
+
+    running.get(id)?.abort();
+    jobs.delete(id);
+    await removeFiles(job);
+    await persist();
+}
+
+/**
+ * Open the downloaded file of a completed job
+ */
+export async function openJobFile(id: string): Promise<JobFile> {
+    const job = jobs.get(id);
+    if (!job) {
+        throw new JobNotFoundError(id);
+    }
+    if (job.state !== 'completed') {
+        throw new JobStateError(`Job ${id} is ${job.state}, the file is available once it completes`);
+    }
+
+    const file = filePath(job);
+    const { size } = await stat(file).catch(() => {
+        throw new JobStateError(`The file of job ${id} is missing`);
+    });
+
+    return {
+        fileName: job.fileName || job.id,
+        mimeType: job.mimeType || 'application/octet-stream',
+        size,
+        body: Readable.toWeb(createReadStream(file)) as unknown as ReadableStream
+    };
+}
+
+// Start queued jobs while there are free workers
+function pump(): void {
+    if (!started) return;
+
+    const now = Date.now();
+    const queued = [...jobs.values()]
+        .filter(job => job.state === 'queued')
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const job of queued) {
+        if (running.size >= options.concurrency) break;
+        // A cancelled download may still be winding down
+        if (running.has(job.id)) continue;
+        if (job.notBefore && job.notBefore > now) continue;
+        runJob(job);
+    }
+
+    // Wake up for the earliest delayed retry
+    const nextRetry = Math.min(...queued.map(job => job.notBefore ?? Infinity));
+    clearTimeout(retryTimer);
+    if (nextRetry !== Infinity && running.size < options.concurrency) {
+        retryTimer = setTimeout(pump, Math.max(0, nextRetry - now));
+    }
+}
+
+async function runJob(job: Job): Promise<void> {
+    const controller = new AbortController();
+    running.set(job.id, controller);
+    updateJob(job, { state: 'running', attempts: job.attempts + 1, notBefore: undefined, error: undefined });
+    await persist();
+
+    try {
+        await downloadToFile(job, controller.signal);
+        if (!controller.signal.aborted) {
+            updateJob(job, { state: 'completed', progress: 1 });
+        }
+    } catch (error) {
+        await rm(partialPath(job), { force: true });
+        if (!controller.signal.aborted) {
+            const failure = wrapError(error, 'Download failed');
+            const retry = RETRYABLE_CODES.includes(failure.code) && job.attempts < options.maxAttempts;
+            updateJob(job, {
+                state: retry ? 'queued' : 'failed',
+                error: { code: failure.code, message: failure.message },
+                notBefore: retry ? Date.now() + RETRY_DELAY_MS * job.attempts : undefined
+            });
+        }
+    } finally {
+        running.delete(job.id);
+        if (controller.signal.aborted) {
+            await rm(partialPath(job), { force: true });
+        }
+        if (jobs.has(job.id)) {
+            await persist();
+        }
+        pump();
+    }
+}
+
+async function downloadToFile(job: Job, signal: AbortSignal): Promise<void> {
+    const download = await openDownload(job.request, signal);
+    if (signal.aborted) {
+        await download.body?.cancel();
+        return;
+    }
+    if (!download.body) {
+        throw new UpstreamError('Upstream returned an empty response');
+    }
+
+    const totalBytes = parseInt(download.headers['content-length'] ?? download.headers['Content-Length'] ?? '', 10);
+    updateJob(job, {
+        fileName: parseFileName(download.headers['Content-Disposition']) ?? job.fileName,
+        mimeType: download.headers['Content-Type'],
+        totalBytes: isNaN(totalBytes) ? undefined : totalBytes,
+        bytesDownloaded: 0,
+        progress: 0
+    });
+
+    await mkdir(options.fileDirectory, { recursive: true });
+    const output = createWriteStream(partialPath(job));
+    const reader = download.body.getReader();
+    let lastProgressSave = 0;
+    // Unblocks a pending read when the job is cancelled
+    const stop = () => reader.cancel().catch(() => {});
+    signal.addEventListener('abort', stop);
+
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done || signal.aborted) break;
+
+            if (!output.write(value)) {
+                await new Promise(resolve => output.once('drain', resolve));
+            }
+            const bytesDownloaded = job.bytesDownloaded + value.byteLength;
+            updateJob(job, {
+                bytesDownloaded,
+                progress: job.totalBytes ? Math.min(1, bytesDownloaded / job.totalBytes) : 0
+            });
+            if (Date.now() - lastProgressSave >= PROGRESS_SAVE_INTERVAL_MS) {
+                lastProgressSave = Date.now();
+                persist();
+            }
+        }
+    } finally {
+        signal.removeEventListener('abort', stop);
+        await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => error ? reject(error) : resolve()));
+    }
+
+    if (!signal.aborted) {
+        await rename(partialPath(job), filePath(job));
+    }
+}
+
+// Remove finished jobs that haven't changed within the retention
+async function expireJobs(): Promise<void> {
+    if (options.retention <= 0) return;
+
+    const cutoff = Date.now() - options.retention * 1000;
+    const expired = [...jobs.values()].filter(job =>
+        FINISHED_STATES.includes(job.state) && !running.has(job.id) && job.updatedAt < cutoff
+    );
+    if (expired.length === 0) return;
+
+    for (const job of expired) {
+        jobs.delete(job.id);
+    }
+    await Promise.all(expired.map(removeFiles));
+    await persist();
+}
+
+async function removeFiles(job: Job): Promise<void> {
+    await Promise.all([
+        rm(filePath(job), { force: true }),
+        rm(partialPath(job), { force: true })
+    ]);
+}
+
+function updateJob(job: Job, changes: Partial<Job>): void {
+    Object.assign(job, changes, { updatedAt: Date.now() });
+}
+
+function persist(): Promise<void> {
+    return options.store.save([...jobs.values()]);
+}
+
+function filePath(job: Job): string {
+    return path.join(options.fileDirectory, job.id);
+}
+
+function partialPath(job: Job): string {
+    return `${filePath(job)}.part`;
+}
+
+// Read the file name from filename* (RFC 5987) or the plain filename parameter
+function parseFileName(disposition: string | undefined): string | undefined {
+    if (!disposition) return undefined;
+
+    const extended = disposition.match(/filename\*=UTF-8''([^;]+)/i);
+    if (extended) {
+        try {
+            return decodeURIComponent(extended[1]);
+        } catch {
+            // Fall back to the plain parameter
+        }
+    }
+    return disposition.match(/filename="([^"]+)"/i)?.[1];
+}
@@ -0,0 +1,78 @@
+// ./src/core/jobstore.ts
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export type JobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobRequest {
+    url: string;
+    format?: string;
+    quality?: string;
+    type?: 'audio' | 'video';
+    merge?: boolean;
+    /** Format selector expression, replaces format, quality, type and merge */
+    select?: string;
+}
+
+export interface Job {
+    id: string;
+    request: JobRequest;
+    state: JobState;
+    /** Fraction between 0 and 1, 0 while the size is unknown */
+    progress: number;
+    bytesDownloaded: number;
+    /** Size announced by the server, undefined when it didn't send one */
+    totalBytes?: number;
+    attempts: number;
+    error?: { code: string; message: string };
+    /** Download file name shown to clients */
+    fileName?: string;
+    mimeType?: string;
+    /** Unix time in milliseconds */
+    createdAt: number;
+    updatedAt: number;
+    /** Earliest time a queued retry may start */
+    notBefore?: number;
+}
+
+export interface JobStore {
+    load(): Promise<Job[]>;
+    save(jobs: Job[]): Promise<void>;
+}
+
+/**
+ * Store every job in a single JSON file. Writes go to a temporary file that
+ * is renamed over the old one, so a crash never leaves a half written store.
+ * @param directory Directory holding jobs.json
+ */
+export function createFileJobStore(directory: string): JobStore {
+    const file = path.join(directory, 'jobs.json');
+
+    // Serialises writes so an older snapshot never overwrites a newer one
+    let writeQueue: Promise<void> = Promise.resolve();
+
+    return {
+        async load() {
+            try {
+                const jobs = JSON.parse(await readFile(file, 'utf8'));
+                return Array.isArray(jobs) ? jobs : [];
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    console.error('Failed to load job store:', error);
+                }
+                return [];
+            }
+        },
+        save(jobs) {
+            const contents = JSON.stringify(jobs, null, 2);
+            writeQueue = writeQueue
+                .then(async () => {
+                    await mkdir(directory, { recursive: true });
+                    await writeFile(`${file}.tmp`, contents);
+                    await rename(`${file}.tmp`, file);
+                })
+                .catch(error => console.error('Failed to save job store:', error));
+            return writeQueue;
+        }
+    };
+}
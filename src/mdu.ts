@@ -1,17 +1,53 @@
 import { Elysia, t } from 'elysia'
 import { swagger } from '@elysiajs/swagger'
-import { extractVideo } from './processor/extractvideo'
-import { 
-    listAvailableFormats, 
-    getFormatsByType,
-    getSupportedQualities,
-    getSupportedFormats
-} from './processor/platform/youtube'
-import { 
-    listAvailableFormats as listTikTokFormats,
-    getSupportedQualities as getTikTokQualities
-} from './processor/platform/tiktok'
-import { detectPlatform } from './processor/platform'
+import { extractDashManifest, extractVideo, listVideoFormats } from './processor/extractvideo'
+import { openDownload, openThumbnail, MAX_THUMBNAIL_SIZE, THUMBNAIL_FORMATS } from './processor/download'
+import { extractPlaylist, MAX_PLAYLIST_LIMIT } from './processor/extractplaylist'
+import { extractBatch, validateBatchRequest, type BatchRequest } from './processor/extractbatch'
+import { extractSubtitles, SUBTITLE_FORMATS } from './processor/extractsubtitles'
+import { findExtractor, getExtractors } from './processor/platform'
+import { resolveUrl } from './processor/resolveurl'
+import {
+    cancelJob,
+    createJob,
+    deleteJob,
+    getJob,
+    listJobs,
+    openJobFile,
+    retryJob,
+    startJobs
+} from './core/jobs'
+import {
+    InvalidRequestError,
+    MduError,
+    NoMatchingFormatError,
+    RateLimitedError,
+    wrapError
+} from './processor/errors'
+import { checkRouteLimit, getRateLimitOptions } from './processor/ratelimit'
+import { config } from './config'
+
+// Client address used for per-IP rate limiting
+function getClientIp(request: Request, server: { requestIP(request: Request): { address: string } | null } | null): string {
+    if (getRateLimitOptions().trustProxy) {
+        const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+        if (forwarded) return forwarded
+    }
+    return server?.requestIP(request)?.address ?? 'unknown'
+}
+
+// Platform cookies supplied by the client, either as a plain cookie string
+// (X-Cookies) or a base64 encoded Netscape cookie file (X-Cookie-File)
+function getRequestCookies(request: Request): string | undefined {
+    const file = request.headers.get('x-cookie-file')
+    if (file) {
+        return Buffer.from(file, 'base64').toString('utf8')
+    }
+    return request.headers.get('x-cookies') ?? undefined
+}
+
+// Queued and interrupted download jobs resume before requests are accepted
+await startJobs()
 
 const app = new Elysia()
     .use(swagger({
@@ -23,18 +59,65 @@ const app = new Elysia()
             },
             tags: [
                 { name: 'Media', description: 'Media extraction and download endpoints' },
+                { name: 'Jobs', description: 'Asynchronous download jobs stored on the server' },
                 { name: 'Info', description: 'Platform and format information endpoints' }
             ]
         }
     }))
+    // Registered before the routes so it applies to them
+    .onError(({ code, error, set }) => {
+        if (error instanceof MduError) {
+            set.status = error.status
+            if (error instanceof RateLimitedError && error.retryAfter) {
+                set.headers['Retry-After'] = error.retryAfter.toString()
+            }
+            return {
+                success: false,
+                error: {
+                    code: error.code,
+                    message: error.message
+                }
+            }
+        }
+
+        // Errors raised by Elysia itself (validation, routing, body parsing)
+        const frameworkErrors: Record<string, { status: number; code: string }> = {
+            VALIDATION: { status: 400, code: 'INVALID_REQUEST' },
+            PARSE: { status: 400, code: 'INVALID_REQUEST' },
+            NOT_FOUND: { status: 404, code: 'NOT_FOUND' }
+        }
+        const mapped = frameworkErrors[code] ?? { status: 500, code: 'INTERNAL_ERROR' }
+
+        set.status = mapped.status
+        return {
+            success: false,
+            error: {
+                code: mapped.code,
+                message: code === 'VALIDATION'
+                    ? error.all[0]?.summary ?? 'Invalid request'
+                    : 'message' in error ? error.message : 'Unknown error'
+            }
+        }
+    })
+    .onBeforeHandle(({ request, server, route, set }) => {
+        const limit = checkRouteLimit(request.method, route, getClientIp(request, server))
+        if (!limit) return
+
+        set.headers['X-RateLimit-Limit'] = limit.limit.toString()
+        set.headers['X-RateLimit-Remaining'] = limit.remaining.toString()
+        set.headers['X-RateLimit-Reset'] = limit.reset.toString()
+        if (!limit.allowed) {
+            throw new RateLimitedError('Too many requests, try again later', limit.retryAfter)
+        }
+    })
     .get('/', () => ({
         status: 'ok',
         message: 'Media Download Utility API is running',
         version: '1.0.0'
     }))
-    .get('/extract', async ({ query }) => {
+    .get('/extract', async ({ query, request, set }) => {
         if (!query.url) {
-            throw new Error('URL is required')
+            throw new InvalidRequestError('URL is required')
         }
 
         try {
@@ -44,15 +127,20 @@ const app = new Elysia()
                 quality: query.quality?.toString(),
                 download: query.download === 'true',
                 info: query.info === 'true',
-                type: query.type as 'audio' | 'video' | undefined
+                type: query.type as 'audio' | 'video' | undefined,
+                merge: query.merge === 'true',
+                cache: query.cache !== 'false',
+                cookies: getRequestCookies(request),
+                select: query.select?.toString()
             });
 
+            set.headers['X-Cache'] = result.cached ? 'HIT' : 'MISS'
             return {
                 success: true,
                 data: result
             };
-        } catch (error: any) {
-            throw new Error(`Extraction failed: ${error.message}`);
+        } catch (error) {
+            throw wrapError(error, 'Extraction failed');
         }
     }, {
         query: t.Object({
@@ -61,7 +149,10 @@ const app = new Elysia()
             quality: t.Optional(t.String()),
             download: t.Optional(t.String()),
             info: t.Optional(t.String()),
-            type: t.Optional(t.Union([t.Literal('audio'), t.Literal('video')]))
+            type: t.Optional(t.Union([t.Literal('audio'), t.Literal('video')])),
+            merge: t.Optional(t.String()),
+            cache: t.Optional(t.String()),
+            select: t.Optional(t.String())
         }),
         detail: {
             summary: 'Extract video information and download options',
@@ -70,42 +161,474 @@ const app = new Elysia()
                 Extract video information and available formats from supported platforms.
 
                 Parameters:
-                - url: Video URL (required, supports YouTube and TikTok)
+                - url: Video URL (required, supports YouTube, TikTok, Vimeo, Twitter/X and Reddit)
                 - format: Desired format (mp4, webm)
                 - quality: Desired quality (360p, 720p, 1080p, or 'highest' for best available)
                 - download: Get direct download URL (true/false)
                 - info: Get only video info without formats (true/false)
                 - type: Filter by media type (audio/video)
+                - merge: Pair the best video-only and audio-only streams for merging (true/false)
+                - cache: Set to false to skip cached results and refresh them (default true)
+                - select: Format selector such as bestvideo[height<=720][ext=mp4]+bestaudio/best,
+                  replaces format, quality, type and merge (see below)
+
+                Platform cookies for age-restricted or private content can be sent in the
+                X-Cookies header (name=value; ...) or as a base64 Netscape cookie file in
+                X-Cookie-File. Requests with cookies bypass the extraction cache.
 
                 Returns video metadata including:
                 - Title, description, duration, thumbnail
                 - Available formats filtered by specified criteria
                 - Direct download URL (if requested)
+                - The selected video and audio pair under 'merged' (if merge is requested)
+                - cached: whether the result came from the extraction cache (also sent as X-Cache)
                 
                 For TikTok videos, 'highest' quality will prioritize no-watermark versions.
                 For YouTube videos, 'highest' quality will prioritize by resolution.
+
+                Format selectors:
+                - Alternatives separated by '/' are tried left to right
+                - best/worst pick formats with video and audio, bestvideo/worstvideo video-only,
+                  bestaudio/worstaudio audio-only streams, a number picks a YouTube itag
+                - A+B merges a video-only and an audio-only stream in the same container. An unescaped '+'
+                  decodes to a space in query strings, 'A B' is read as 'A+B'
+                - Filters: [height<=720], [width>=1280], [fps>30], [size<50M], [bitrate>=128k],
+                  [ext=mp4], [codec=avc1] (also ^=, *=, $=, !=), [quality=720p], [watermark=false],
+                  [hdr=true], [protocol=https], [media=2]. Put '?' after the operator to keep formats that don't report the
+                  field, e.g. [height<=?720]
+                An invalid selector returns INVALID_REQUEST, a selector nothing matches returns
+                NO_MATCHING_FORMAT.
             `
         }
     })
-    .get('/formats', async ({ query }) => {
+    .post('/extract/batch', async ({ body, request, set }) => {
+        const batch: BatchRequest = {
+            items: body.items,
+            concurrency: body.concurrency,
+            cookies: getRequestCookies(request)
+        }
+        validateBatchRequest(batch)
+
+        // NDJSON clients get one line per item as soon as it finishes
+        if (request.headers.get('accept')?.includes('application/x-ndjson')) {
+            const encoder = new TextEncoder()
+            const stream = new ReadableStream({
+                async start(controller) {
+                    await extractBatch(batch, result => {
+                        controller.enqueue(encoder.encode(JSON.stringify(result) + '\n'))
+                    })
+                    controller.close()
+                }
+            })
+
+            return new Response(stream, {
+                headers: { 'Content-Type': 'application/x-ndjson' }
+            })
+        }
+
+        try {
+            const result = await extractBatch(batch)
+            set.headers['X-Batch-Failed'] = result.failed.toString()
+            return {
+                success: true,
+                data: result
+            }
+        } catch (error) {
+            throw wrapError(error, 'Batch extraction failed')
+        }
+    }, {
+        body: t.Object({
+            items: t.Array(t.Object({
+                url: t.String(),
+                format: t.Optional(t.String()),
+                quality: t.Optional(t.String()),
+                download: t.Optional(t.Boolean()),
+                info: t.Optional(t.Boolean()),
+                type: t.Optional(t.Union([t.Literal('audio'), t.Literal('video')])),
+                merge: t.Optional(t.Boolean()),
+                cache: t.Optional(t.Boolean()),
+                select: t.Optional(t.String())
+            })),
+            concurrency: t.Optional(t.Integer({ minimum: 1 }))
+        }),
+        detail: {
+            summary: 'Extract several videos in one request',
+            tags: ['Media'],
+            description: `
+                Runs /extract for every item of the batch with bounded concurrency.
+
+                Body:
+                - items: Array of extract requests (url, format, quality, download, info,
+                  type, merge, cache, select), same meaning as the /extract query parameters
+                - concurrency: Items extracted at the same time (optional, capped by the
+                  server's batch.concurrency setting)
+
+                Every platform also has its own concurrency limit. A failing item doesn't
+                fail the batch: each result has index, url, success and either data
+                (shaped like /extract data) or error (code and message).
+
+                Send Accept: application/x-ndjson to receive one JSON line per item as
+                soon as it finishes, in completion order, instead of a single response.
+            `
+        }
+    })
+    .get('/download', async ({ query, request }) => {
         if (!query.url) {
-            throw new Error('URL is required')
+            throw new InvalidRequestError('URL is required')
+        }
+
+        try {
+            const download = await openDownload({
+                url: query.url.toString(),
+                format: query.format?.toString(),
+                quality: query.quality?.toString(),
+                type: query.type as 'audio' | 'video' | undefined,
+                merge: query.merge === 'true',
+                cookies: getRequestCookies(request),
+                range: request.headers.get('range') ?? undefined,
+                select: query.select?.toString()
+            }, request.signal);
+
+            return new Response(download.body, {
+                status: download.status,
+                headers: download.headers
+            });
+        } catch (error) {
+            throw wrapError(error, 'Download failed');
+        }
+    }, {
+        query: t.Object({
+            url: t.String(),
+            format: t.Optional(t.String()),
+            quality: t.Optional(t.String()),
+            type: t.Optional(t.Union([t.Literal('audio'), t.Literal('video')])),
+            merge: t.Optional(t.String()),
+            select: t.Optional(t.String())
+        }),
+        detail: {
+            summary: 'Download media through the server',
+            tags: ['Media'],
+            description: `
+                Resolves a format the same way as /extract and streams the media bytes
+                through the server with the headers the platform CDN expects.
+
+                Parameters:
+                - url: Video URL (required, supports YouTube, TikTok, Vimeo, Twitter/X and Reddit)
+                - format: Desired format (mp4, webm)
+                - quality: Desired quality (360p, 720p, 1080p, or 'highest' for best available)
+                - type: Filter by media type (audio/video)
+                - merge: Remux the best matching video-only stream with the best audio
+                  stream into a single MP4 (H.264/AAC) or WebM (VP9/Opus) file (true/false)
+                - select: Format selector as described on /extract, A+B selections are merged
+
+                Range requests are forwarded upstream, so partial downloads and seeking
+                are supported. The response carries Content-Type, Content-Length and a
+                Content-Disposition filename built from the video title.
+
+                Merged downloads are assembled in memory and don't support Range requests.
+                Merges larger than download.maxMergeSize fail with MERGE_TOO_LARGE.
+            `
+        }
+    })
+    .get('/subtitles', async ({ query, request }) => {
+        if (!query.url) {
+            throw new InvalidRequestError('URL is required')
+        }
+
+        try {
+            const subtitles = await extractSubtitles({
+                url: query.url.toString(),
+                language: query.lang?.toString(),
+                autoGenerated: query.auto === undefined ? undefined : query.auto === 'true',
+                translateTo: query.translate?.toString(),
+                format: query.format,
+                cookies: getRequestCookies(request)
+            });
+
+            return new Response(subtitles.content, {
+                headers: {
+                    'Content-Type': `${subtitles.mimeType}; charset=utf-8`,
+                    'Content-Language': subtitles.language,
+                    'X-Subtitles-Auto-Generated': subtitles.autoGenerated.toString(),
+                    ...(subtitles.translatedFrom ? { 'X-Subtitles-Translated-From': subtitles.translatedFrom } : {})
+                }
+            });
+        } catch (error) {
+            throw wrapError(error, 'Subtitle extraction failed');
+        }
+    }, {
+        query: t.Object({
+            url: t.String(),
+            lang: t.Optional(t.String()),
+            auto: t.Optional(t.String()),
+            translate: t.Optional(t.String()),
+            format: t.Optional(t.Union(SUBTITLE_FORMATS.map(format => t.Literal(format))))
+        }),
+        detail: {
+            summary: 'Download subtitles of a video',
+            tags: ['Media'],
+            description: `
+                Fetches one subtitle track and returns it as SRT, WebVTT or plain text.
+                The tracks of a video are listed under 'subtitles' in /extract data
+                (language, name, autoGenerated, translatable).
+
+                Parameters:
+                - url: Video URL (required, supports YouTube)
+                - lang: Track language code (e.g. en, pt-BR); 'en' also matches regional
+                  variants. Defaults to the first track
+                - auto: true for automatic captions only, false for uploaded subtitles only;
+                  uploaded subtitles are preferred when absent
+                - translate: Language code to machine translate the track to, the track
+                  must be translatable
+                - format: srt (default), vtt or txt
+
+                The response carries Content-Language, X-Subtitles-Auto-Generated and, for
+                translations, X-Subtitles-Translated-From. Missing tracks return
+                SUBTITLES_UNAVAILABLE with the list of available languages.
+            `
+        }
+    })
+    .get('/thumbnail', async ({ query, request }) => {
+        if (!query.url) {
+            throw new InvalidRequestError('URL is required')
+        }
+
+        try {
+            const image = await openThumbnail({
+                url: query.url.toString(),
+                width: query.width ? Number(query.width) : undefined,
+                height: query.height ? Number(query.height) : undefined,
+                format: query.format,
+                cookies: getRequestCookies(request)
+            });
+
+            return new Response(image.body, {
+                headers: {
+                    'Content-Type': image.mimeType,
+                    'Cache-Control': 'public, max-age=3600'
+                }
+            });
+        } catch (error) {
+            throw wrapError(error, 'Thumbnail download failed');
+        }
+    }, {
+        query: t.Object({
+            url: t.String(),
+            width: t.Optional(t.String()),
+            height: t.Optional(t.String()),
+            format: t.Optional(t.Union(THUMBNAIL_FORMATS.map(format => t.Literal(format))))
+        }),
+        detail: {
+            summary: 'Download the thumbnail of a video',
+            tags: ['Media'],
+            description: `
+                Proxies the best available thumbnail of a video, so clients don't depend
+                on platform CDNs that block hotlinking. All sizes are listed under
+                'thumbnails' in /extract data.
+
+                Parameters:
+                - url: Video URL (required)
+                - width, height: Maximum size in pixels (1-${MAX_THUMBNAIL_SIZE}), the image is
+                  scaled down to fit and never enlarged
+                - format: jpeg, png or webp; jpeg when only a size is given
+
+                Without width, height or format the original image is passed through.
+            `
+        }
+    })
+    .get('/playlist', async ({ query, request }) => {
+        if (!query.url) {
+            throw new InvalidRequestError('URL is required')
         }
 
-        const url = query.url.toString();
         try {
-            const platform = detectPlatform(url);
-            let formats;
-
-            if (platform === 'tiktok') {
-                formats = await listTikTokFormats(url);
-            } else if (platform === 'youtube') {
-                formats = query.type 
-                    ? await getFormatsByType(url, query.type as 'audio' | 'video')
-                    : await listAvailableFormats(url);
-            } else {
-                throw new Error('Unsupported platform');
+            const page = await extractPlaylist({
+                url: query.url.toString(),
+                limit: query.limit ? Number(query.limit) : undefined,
+                continuation: query.continuation?.toString(),
+                extract: query.extract === 'true',
+                format: query.format?.toString(),
+                quality: query.quality?.toString(),
+                cookies: getRequestCookies(request)
+            });
+
+            return {
+                success: true,
+                data: page
+            };
+        } catch (error) {
+            throw wrapError(error, 'Playlist extraction failed');
+        }
+    }, {
+        query: t.Object({
+            url: t.String(),
+            limit: t.Optional(t.String()),
+            continuation: t.Optional(t.String()),
+            extract: t.Optional(t.String()),
+            format: t.Optional(t.String()),
+            quality: t.Optional(t.String())
+        }),
+        detail: {
+            summary: 'List the videos of a playlist, channel or feed',
+            tags: ['Media'],
+            description: `
+                Lists the entries of a YouTube playlist (/playlist?list=...) or channel
+                (/@handle, /channel/ID, optionally with the /videos, /shorts or /streams tab),
+                or of a TikTok profile (/@user) or hashtag (/tag/name) feed.
+
+                Parameters:
+                - url: Playlist, channel, profile or hashtag URL (required)
+                - limit: Entries per page, 1 to ${MAX_PLAYLIST_LIMIT} (default 100)
+                - continuation: Token from the previous page to fetch the next one
+                - extract: Fully extract every entry, adding its metadata and formats (true/false)
+                - format, quality: Format selection used when extracting entries
+
+                Returns the playlist id, title and kind ('playlist', 'channel', 'user' or
+                'hashtag'), the entries (id, url, title, duration in seconds, thumbnail,
+                1-based index) and a continuation token when more entries are available.
+                TikTok entries also include description, createdAt and stats.
+
+                With extract=true each entry gets a 'video' object shaped like /extract data,
+                or an 'error' object with code and message when that entry failed.
+            `
+        }
+    })
+    .post('/jobs', async ({ body, set }) => {
+        const job = await createJob({
+            url: body.url,
+            format: body.format,
+            quality: body.quality,
+            type: body.type,
+            merge: body.merge,
+            select: body.select
+        })
+
+        set.status = 202
+        set.headers['Location'] = `/jobs/${job.id}`
+        return {
+            success: true,
+            data: job
+        }
+    }, {
+        body: t.Object({
+            url: t.String(),
+            format: t.Optional(t.String()),
+            quality: t.Optional(t.String()),
+            type: t.Optional(t.Union([t.Literal('audio'), t.Literal('video')])),
+            merge: t.Optional(t.Boolean()),
+            select: t.Optional(t.String())
+        }),
+        detail: {
+            summary: 'Queue a download job',
+            tags: ['Jobs'],
+            description: `
+                Queues a download that runs in the background and is saved on the server.
+                The format is resolved the same way as /download when the job starts.
+
+                Body:
+                - url: Video URL (required)
+                - format, quality, type, merge, select: Same meaning as the /download parameters
+
+                Unsupported URLs and malformed selectors are rejected with 400 right away.
+                Returns 202 with the job. Poll GET /jobs/:id until its state is 'completed',
+                then fetch the file from GET /jobs/:id/file. Jobs survive server restarts,
+                interrupted downloads start over.
+            `
+        }
+    })
+    .get('/jobs', () => ({
+        success: true,
+        data: listJobs()
+    }), {
+        detail: {
+            summary: 'List download jobs',
+            tags: ['Jobs'],
+            description: 'Returns every stored job, newest first.'
+        }
+    })
+    .get('/jobs/:id', ({ params }) => ({
+        success: true,
+        data: getJob(params.id)
+    }), {
+        detail: {
+            summary: 'Get the state of a download job',
+            tags: ['Jobs'],
+            description: `
+                Returns the job with:
+                - state: queued, running, completed, failed or cancelled
+                - progress: Fraction between 0 and 1 (0 while the size is unknown)
+                - bytesDownloaded, totalBytes: Bytes written so far and the announced size
+                - attempts: Download attempts so far, upstream and rate limit errors are
+                  retried automatically up to the server's jobs.maxAttempts setting
+                - error: Code and message of the last failure
+                - fileName, mimeType: Known once the download has started
+            `
+        }
+    })
+    .get('/jobs/:id/file', async ({ params }) => {
+        const file = await openJobFile(params.id)
+
+        return new Response(file.body, {
+            headers: {
+                'Content-Type': file.mimeType,
+                'Content-Length': file.size.toString(),
+                'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`
             }
+        })
+    }, {
+        detail: {
+            summary: 'Download the file of a completed job',
+            tags: ['Jobs'],
+            description: `
+                Streams the downloaded file. Fails with JOB_STATE_CONFLICT (409) until the
+                job has completed.
+            `
+        }
+    })
+    .post('/jobs/:id/cancel', async ({ params }) => ({
+        success: true,
+        data: await cancelJob(params.id)
+    }), {
+        detail: {
+            summary: 'Cancel a queued or running job',
+            tags: ['Jobs'],
+            description: 'Stops the download and removes the partial file. The job is kept and can be retried.'
+        }
+    })
+    .post('/jobs/:id/retry', async ({ params }) => ({
+        success: true,
+        data: await retryJob(params.id)
+    }), {
+        detail: {
+            summary: 'Retry a failed or cancelled job',
+            tags: ['Jobs'],
+            description: 'Queues the job again with a fresh set of attempts.'
+        }
+    })
+    .delete('/jobs/:id', async ({ params }) => {
+        await deleteJob(params.id)
+        return { success: true }
+    }, {
+        detail: {
+            summary: 'Delete a job and its file',
+            tags: ['Jobs'],
+            description: 'Cancels the job if it is running, then removes it and its downloaded file.'
+        }
+    })
+    .get('/formats', async ({ query, request, set }) => {
+        if (!query.url) {
+            throw new InvalidRequestError('URL is required')
+        }
+
+        const url = query.url.toString();
+        try {
+            const { platform, formats, cached } = await listVideoFormats(
+                url,
+                query.type as 'audio' | 'video' | undefined,
+                query.cache !== 'false',
+                getRequestCookies(request),
+                query.select?.toString()
+            );
 
             // Filter out formats without URLs and map to consistent format
             const validFormats = formats
@@ -116,25 +639,43 @@ const app = new Elysia()
                     mimeType: format.mimeType,
                     type: format.type,
                     size: format.size,
-                    url: format.url
+                    url: format.url,
+                    hasVideo: format.hasVideo,
+                    hasAudio: format.hasAudio,
+                    itag: format.itag,
+                    width: format.width,
+                    height: format.height,
+                    fps: format.fps,
+                    bitrate: format.bitrate,
+                    codecs: format.codecs,
+                    audioSampleRate: format.audioSampleRate,
+                    audioChannels: format.audioChannels,
+                    hdr: format.hdr,
+                    protocol: format.protocol,
+                    client: format.client,
+                    mediaIndex: format.mediaIndex
                 }));
 
             if (validFormats.length === 0) {
-                throw new Error('No valid formats found with URLs');
+                throw new NoMatchingFormatError('No valid formats found with URLs');
             }
 
+            set.headers['X-Cache'] = cached ? 'HIT' : 'MISS'
             return {
                 success: true,
                 platform,
+                cached,
                 formats: validFormats
             };
-        } catch (error: any) {
-            throw new Error(`Failed to list formats: ${error.message}`);
+        } catch (error) {
+            throw wrapError(error, 'Failed to list formats');
         }
     }, {
         query: t.Object({
             url: t.String(),
-            type: t.Optional(t.Union([t.Literal('audio'), t.Literal('video')]))
+            type: t.Optional(t.Union([t.Literal('audio'), t.Literal('video')])),
+            cache: t.Optional(t.String()),
+            select: t.Optional(t.String())
         }),
         detail: {
             summary: 'List all available formats for a media URL',
@@ -143,48 +684,111 @@ const app = new Elysia()
                 Lists all available formats and qualities for a video URL.
                 
                 Parameters:
-                - url: Video URL (required, supports YouTube and TikTok)
+                - url: Video URL (required, supports YouTube, TikTok, Vimeo, Twitter/X and Reddit)
                 - type: Filter by media type (audio/video)
+                - cache: Set to false to skip cached results and refresh them (default true)
+                - select: Format selector as described on /extract, lists only the formats it picks
                 
                 Returns an array of format objects containing:
                 - quality: Media quality (e.g., 1080p, 720p, original, no-watermark)
                 - format: File format (e.g., mp4, webm)
                 - mimeType: Full MIME type (e.g., video/mp4, audio/webm)
                 - type: Media type (audio/video)
-                - size: File size in bytes
+                - size: File size in bytes (0 when unknown)
                 - url: Direct URL to the media format
+                - hasVideo, hasAudio: Whether the stream carries video, audio or both
+                - itag: YouTube format ID
+                - width, height, fps: Video dimensions and frame rate
+                - bitrate: Average bitrate in bits per second
+                - codecs: Codecs from the MIME type (e.g., avc1.640028, mp4a.40.2)
+                - audioSampleRate, audioChannels: Audio sample rate in Hz and channel count
+                - hdr: Whether the video is HDR
+                - protocol: 'hls' when url is an HLS media playlist, 'dash' when url is the
+                  DASH manifest holding the stream (identified by itag). Live streams are
+                  only available this way. The format of an hls format is its segment
+                  container, ts or mp4
+                - client: YouTube client whose player response listed the format (web,
+                  android, ios or tv_embedded)
+                - mediaIndex: Position of the video in Twitter and Reddit posts with several videos or GIFs
+
+                Technical fields the platform doesn't report are omitted.
                 
                 Note: For TikTok videos, quality options typically include 'original' and 
                 'original (no watermark)' when available.
             `
         }
     })
+    .get('/manifest', async ({ query, request, set }) => {
+        if (!query.url) {
+            throw new InvalidRequestError('URL is required')
+        }
+
+        try {
+            const { manifest } = await extractDashManifest(
+                query.url.toString(),
+                query.cache !== 'false',
+                getRequestCookies(request)
+            );
+
+            set.headers['Content-Type'] = 'application/dash+xml'
+            return manifest;
+        } catch (error) {
+            throw wrapError(error, 'Failed to build manifest');
+        }
+    }, {
+        query: t.Object({
+            url: t.String(),
+            cache: t.Optional(t.String())
+        }),
+        detail: {
+            summary: 'Generate a DASH manifest for a video',
+            tags: ['Media'],
+            description: `
+                Builds a static DASH MPD from the video-only and audio-only streams of a
+                video, so players such as dash.js can play them directly and switch
+                qualities themselves.
+
+                Parameters:
+                - url: Video URL (required, supports YouTube)
+                - cache: Set to false to skip cached results and refresh them (default true)
+
+                Streams are grouped into one adaptation set per container and codec. The
+                manifest references the platform's URLs, which expire like the ones returned
+                by /extract and may be bound to the server's IP address.
+            `
+        }
+    })
     .get('/support', ({ query }) => {
         try {
-            const platform = query.url ? detectPlatform(query.url.toString()) : undefined;
-            
+            if (query.url) {
+                const extractor = findExtractor(query.url.toString());
+                return {
+                    success: true,
+                    data: {
+                        platform: extractor?.name ?? 'unknown',
+                        formats: extractor?.getSupportedFormats() ?? [],
+                        qualities: extractor?.getSupportedQualities() ?? []
+                    }
+                };
+            }
+
+            const extractors = getExtractors();
             const support = {
-                platforms: ['youtube', 'tiktok'],
-                formats: {
-                    youtube: getSupportedFormats(),
-                    tiktok: ['mp4']
-                },
-                qualities: {
-                    youtube: getSupportedQualities(),
-                    tiktok: getTikTokQualities()
-                }
+                platforms: extractors.map(extractor => extractor.name),
+                formats: Object.fromEntries(
+                    extractors.map(extractor => [extractor.name, extractor.getSupportedFormats()])
+                ),
+                qualities: Object.fromEntries(
+                    extractors.map(extractor => [extractor.name, extractor.getSupportedQualities()])
+                )
             };
 
             return {
                 success: true,
-                data: platform ? {
-                    platform,
-                    formats: platform === 'youtube' || platform === 'tiktok' ? support.formats[platform] : [],
-                    qualities: platform === 'youtube' || platform === 'tiktok' ? support.qualities[platform] : []
-                } : support
+                data: support
             };
-        } catch (error: any) {
-            throw new Error(`Failed to get support info: ${error.message}`);
+        } catch (error) {
+            throw wrapError(error, 'Failed to get support info');
         }
     }, {
         query: t.Object({
@@ -208,15 +812,47 @@ const app = new Elysia()
             `
         }
     })
-    .onError(({ code, error }) => {
-        return {
-            success: false,
-            error: 'message' in error ? error.message : 'Unknown error',
-            code: code
+    .get('/resolve', async ({ query }) => {
+        if (!query.url) {
+            throw new InvalidRequestError('URL is required')
+        }
+
+        try {
+            return {
+                success: true,
+                data: await resolveUrl(query.url.toString())
+            };
+        } catch (error) {
+            throw wrapError(error, 'Failed to resolve URL');
+        }
+    }, {
+        query: t.Object({
+            url: t.String()
+        }),
+        detail: {
+            summary: 'Resolve a link to its canonical URL',
+            tags: ['Info'],
+            description: `
+                Maps any known variant of a link to the target it points at, so clients can
+                dedupe links before extracting them.
+
+                Parameters:
+                - url: Media URL (required)
+
+                Returns:
+                - platform: Platform name
+                - kind: video, playlist, channel, profile or hashtag
+                - id: Platform ID of the target, platform, kind and id identify it uniquely
+                - canonicalUrl: Clean URL of the target
+                - shortLink: Whether a short link (vm.tiktok.com, vt.tiktok.com, tiktok.com/t/)
+                  had to be followed; other URLs are resolved without network requests
+
+                Unknown URLs of a supported platform return INVALID_URL.
+            `
         }
     })
-    .listen(3000)
+    .listen({ hostname: config.server.host, port: config.server.port })
 
-console.log('🦊 MDU API is running at http://localhost:3000')
+console.log(`🦊 MDU API is running at http://${config.server.host}:${config.server.port}`)
 
 export type App = typeof app
\ No newline at end of file
@@ -0,0 +1,169 @@
+// ./src/processor/cache.ts
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { config } from '../config';
+import type { VideoMetadata } from './extractvideo';
+
+export interface CacheEntry {
+    value: VideoMetadata;
+    /** Unix time in milliseconds */
+    expiresAt: number;
+}
+
+export interface CacheBackend {
+    get(key: string): Promise<CacheEntry | undefined>;
+    set(key: string, entry: CacheEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+export interface CacheOptions {
+    backend: CacheBackend;
+    /** Set to false to disable caching entirely */
+    enabled: boolean;
+    /** TTL in seconds for platforms whose URLs carry no expiry */
+    defaultTtl: number;
+    /** Per-platform TTL overrides in seconds */
+    platformTtl: Record<string, number>;
+    /** Seconds subtracted from URL expiry so clients get time to use them */
+    expiryMargin: number;
+}
+
+/**
+ * Simple in-process cache. Expired entries are dropped lazily on access and
+ * the oldest entry is evicted once maxEntries is reached.
+ */
+export function createMemoryCacheBackend(maxEntries = 1000): CacheBackend {
+    const entries = new Map<string, CacheEntry>();
+
+    return {
+        async get(key) {
+            const entry = entries.get(key);
+            if (entry && entry.expiresAt <= Date.now()) {
+                entries.delete(key);
+                return undefined;
+            }
+            return entry;
+        },
+        async set(key, entry) {
+            entries.delete(key);
+            if (entries.size >= maxEntries) {
+                const oldest = entries.keys().next().value;
+                if (oldest !== undefined) entries.delete(oldest);
+            }
+            entries.set(key, entry);
+        },
+        async delete(key) {
+            entries.delete(key);
+        }
+    };
+}
+
+/**
+ * Cache backed by one JSON file per entry, survives restarts and can be
+ * shared between processes on the same host
+ */
+export function createFileCacheBackend(directory: string): CacheBackend {
+    const fileFor = (key: string) =>
+        path.join(directory, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+    return {
+        async get(key) {
+            try {
+                const entry: CacheEntry = JSON.parse(await readFile(fileFor(key), 'utf8'));
+                if (entry.expiresAt <= Date.now()) {
+                    await rm(fileFor(key), { force: true });
+                    return undefined;
+                }
+                return entry;
+            } catch {
+                return undefined;
+            }
+        },
+        async set(key, entry) {
+            await mkdir(directory, { recursive: true });
+            await writeFile(fileFor(key), JSON.stringify(entry));
+        },
+        async delete(key) {
+            await rm(fileFor(key), { force: true });
+        }
+    };
+}
+
+const options: CacheOptions = {
+    backend: config.cache.backend === 'file'
+        ? createFileCacheBackend(config.cache.directory)
+        : createMemoryCacheBackend(),
+    enabled: config.cache.enabled,
+    defaultTtl: config.cache.defaultTtl,
+    platformTtl: {},
+    expiryMargin: 60
+};
+
+export function configureCache(overrides: Partial<CacheOptions>): void {
+    Object.assign(options, overrides);
+}
+
+/**
+ * Look up a cached extraction result
+ * @param key Canonical cache key, see buildCacheKey
+ * @returns A copy of the cached metadata, callers may mutate it freely
+ */
+export async function getCachedResult(key: string): Promise<VideoMetadata | undefined> {
+    if (!options.enabled) return undefined;
+
+    try {
+        const entry = await options.backend.get(key);
+        return entry ? structuredClone(entry.value) : undefined;
+    } catch (error) {
+        console.error('Failed to read extraction cache:', error);
+        return undefined;
+    }
+}
+
+/**
+ * Store an extraction result. The TTL follows the earliest `expire` query
+ * parameter among the format URLs, falling back to the platform default.
+ */
+export async function setCachedResult(key: string, platform: string, value: VideoMetadata): Promise<void> {
+    if (!options.enabled) return;
+
+    const ttl = getUrlExpiryTtl(value) ?? options.platformTtl[platform] ?? options.defaultTtl;
+    if (ttl <= 0) return;
+
+    try {
+        await options.backend.set(key, {
+            value: structuredClone(value),
+            expiresAt: Date.now() + ttl * 1000
+        });
+    } catch (error) {
+        console.error('Failed to write extraction cache:', error);
+    }
+}
+
+export async function invalidateCachedResult(key: string): Promise<void> {
+    await options.backend.delete(key);
+}
+
+export function buildCacheKey(platform: string, videoId: string): string {
+    return `${platform}:${videoId}`;
+}
+
+// Signed URLs (YouTube) carry their expiry as a unix timestamp in 'expire'
+function getUrlExpiryTtl(value: VideoMetadata): number | undefined {
+    let earliest: number | undefined;
+    for (const format of value.formats) {
+        try {
+            const expire = new URL(format.url).searchParams.get('expire');
+            const timestamp = expire ? parseInt(expire, 10) : NaN;
+            if (!isNaN(timestamp) && (earliest === undefined || timestamp < earliest)) {
+                earliest = timestamp;
+            }
+        } catch {
+            // Ignore malformed URLs, they can't contribute an expiry
+        }
+    }
+
+    if (earliest === undefined) return undefined;
+    return Math.floor(earliest - Date.now() / 1000 - options.expiryMargin);
+}
@@ -0,0 +1,99 @@
+// ./src/processor/cookies.test.ts
+import { describe, expect, test } from 'bun:test';
+import {
+    createRequestCookieJar,
+    getCookieHeader,
+    parseNetscapeCookies,
+    serializeNetscapeCookies,
+    storeSetCookies
+} from './cookies';
+
+const COOKIE_FILE = [
+    '# Netscape HTTP Cookie File',
+    '',
+    '.youtube.com\tTRUE\t/\tTRUE\t0\tPREF\tf6=40000000',
+    '#HttpOnly_.youtube.com\tTRUE\t/\tTRUE\t4102444800\tSID\tabc\tdef',
+    'www.youtube.com\tFALSE\t/account\tFALSE\t1\tOLD\texpired',
+    'broken line'
+].join('\n');
+
+describe('parseNetscapeCookies', () => {
+    const cookies = parseNetscapeCookies(COOKIE_FILE);
+
+    test('reads cookie lines and skips comments and malformed lines', () => {
+        expect(cookies.map(cookie => cookie.name)).toEqual(['PREF', 'SID', 'OLD']);
+    });
+
+    test('reads the fields of each line', () => {
+        expect(cookies[0]).toEqual({
+            domain: 'youtube.com',
+            includeSubdomains: true,
+            path: '/',
+            secure: true,
+            httpOnly: false,
+            expires: 0,
+            name: 'PREF',
+            value: 'f6=40000000'
+        });
+        expect(cookies[1]).toMatchObject({ httpOnly: true, expires: 4102444800, value: 'abc\tdef' });
+        expect(cookies[2]).toMatchObject({ domain: 'www.youtube.com', includeSubdomains: false, path: '/account' });
+    });
+
+    test('round-trips through serializeNetscapeCookies', () => {
+        expect(parseNetscapeCookies(serializeNetscapeCookies(cookies))).toEqual(cookies);
+    });
+});
+
+describe('createRequestCookieJar', () => {
+    test('scopes header cookies to the domain and its subdomains', () => {
+        const jar = createRequestCookieJar('a=1; b = two=2 ; junk', '.tiktok.com');
+        expect(jar.cookies.map(cookie => [cookie.domain, cookie.name, cookie.value])).toEqual([
+            ['tiktok.com', 'a', '1'],
+            ['tiktok.com', 'b', 'two=2']
+        ]);
+        expect(getCookieHeader(jar, 'https://www.tiktok.com/')).toBe('a=1; b=two=2');
+    });
+
+    test('reads Netscape files', () => {
+        expect(createRequestCookieJar(COOKIE_FILE, 'ignored.com').cookies).toHaveLength(3);
+    });
+});
+
+describe('getCookieHeader', () => {
+    const jar = { cookies: parseNetscapeCookies(COOKIE_FILE) };
+
+    test('sends matching cookies that have not expired', () => {
+        expect(getCookieHeader(jar, 'https://www.youtube.com/account/settings')).toBe('PREF=f6=40000000; SID=abc\tdef');
+    });
+
+    test('checks the domain, the path and the scheme', () => {
+        expect(getCookieHeader(jar, 'http://m.youtube.com/')).toBe('');
+        expect(getCookieHeader(jar, 'https://notyoutube.com/')).toBe('');
+        expect(getCookieHeader({ cookies: [{ ...jar.cookies[2], expires: 0 }] }, 'http://www.youtube.com/')).toBe('');
+        expect(getCookieHeader({ cookies: [{ ...jar.cookies[2], expires: 0 }] }, 'http://www.youtube.com/account')).toBe('OLD=expired');
+    });
+});
+
+describe('storeSetCookies', () => {
+    test('adds, replaces and removes cookies', () => {
+        const jar = createRequestCookieJar('token=old', 'example.com');
+        expect(storeSetCookies(jar, 'https://www.example.com/', [
+            'token=new; Domain=example.com; Path=/; Secure; HttpOnly',
+            'session=1; Max-Age=3600'
+        ])).toBe(true);
+        expect(jar.cookies.map(cookie => [cookie.domain, cookie.name, cookie.value])).toEqual([
+            ['example.com', 'token', 'new'],
+            ['www.example.com', 'session', '1']
+        ]);
+        expect(jar.cookies[0]).toMatchObject({ includeSubdomains: true, secure: true, httpOnly: true });
+
+        storeSetCookies(jar, 'https://www.example.com/', ['session=; Max-Age=0']);
+        expect(jar.cookies.map(cookie => cookie.name)).toEqual(['token']);
+    });
+
+    test('ignores cookies set for another domain', () => {
+        const jar = createRequestCookieJar('', 'example.com');
+        expect(storeSetCookies(jar, 'https://example.com/', ['evil=1; Domain=other.com', 'novalue'])).toBe(false);
+        expect(jar.cookies).toEqual([]);
+    });
+});
@@ -0,0 +1,282 @@
+// ./src/processor/cookies.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { readFile, writeFile } from 'node:fs/promises';
+import { config } from '../config';
+
+export interface Cookie {
+    /** Domain without leading dot */
+    domain: string;
+    includeSubdomains: boolean;
+    path: string;
+    secure: boolean;
+    httpOnly: boolean;
+    /** Unix time in seconds, 0 for session cookies */
+    expires: number;
+    name: string;
+    value: string;
+}
+
+export interface CookieJar {
+    cookies: Cookie[];
+    /** Netscape cookie file the jar is persisted to, if any */
+    file?: string;
+}
+
+export interface CookieOptions {
+    /** Netscape cookie files keyed by platform name */
+    files: Record<string, string>;
+    /** Write Set-Cookie updates back to the configured files */
+    persist: boolean;
+}
+
+const options: CookieOptions = {
+    files: Object.fromEntries(
+        Object.entries(config.platforms)
+            .filter(([, platform]) => platform.cookieFile)
+            .map(([name, platform]) => [name, platform.cookieFile!])
+    ),
+    persist: config.cookies.persist
+};
+
+// Jars loaded from the configured files, keyed by platform
+const platformJars = new Map<string, Promise<CookieJar>>();
+
+// Per-request jars take precedence over the configured ones
+const requestJar = new AsyncLocalStorage<CookieJar>();
+
+// Serialises writes so concurrent requests don't interleave file contents
+let persistQueue: Promise<void> = Promise.resolve();
+
+export function configureCookies(overrides: Partial<CookieOptions>): void {
+    Object.assign(options, overrides);
+    platformJars.clear();
+}
+
+/**
+ * Parse a Netscape format cookie file (as exported by browsers and curl)
+ * @param text File contents
+ * @returns Cookie[]
+ */
+export function parseNetscapeCookies(text: string): Cookie[] {
+    const cookies: Cookie[] = [];
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        let line = rawLine.trim();
+        let httpOnly = false;
+        if (line.startsWith('#HttpOnly_')) {
+            line = line.slice('#HttpOnly_'.length);
+            httpOnly = true;
+        } else if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        const fields = line.split('\t');
+        if (fields.length < 7) continue;
+
+        const [domain, includeSubdomains, path, secure, expires, name, ...value] = fields;
+        cookies.push({
+            domain: domain.replace(/^\./, '').toLowerCase(),
+            includeSubdomains: includeSubdomains.toUpperCase() === 'TRUE' || domain.startsWith('.'),
+            path: path || '/',
+            secure: secure.toUpperCase() === 'TRUE',
+            httpOnly,
+            expires: parseInt(expires, 10) || 0,
+            name,
+            value: value.join('\t')
+        });
+    }
+
+    return cookies;
+}
+
+export function serializeNetscapeCookies(cookies: Cookie[]): string {
+    const lines = cookies.map(cookie => [
+        `${cookie.httpOnly ? '#HttpOnly_' : ''}${cookie.includeSubdomains ? '.' : ''}${cookie.domain}`,
+        cookie.includeSubdomains ? 'TRUE' : 'FALSE',
+        cookie.path,
+        cookie.secure ? 'TRUE' : 'FALSE',
+        cookie.expires.toString(),
+        cookie.name,
+        cookie.value
+    ].join('\t'));
+
+    return ['# Netscape HTTP Cookie File', ...lines, ''].join('\n');
+}
+
+/**
+ * Build a jar from client supplied cookies, either a Netscape file or a
+ * plain `name=value; name2=value2` header scoped to the given domain
+ * @param input Cookie text sent with the request
+ * @param domain Domain plain header cookies are sent to (including subdomains)
+ */
+export function createRequestCookieJar(input: string, domain: string): CookieJar {
+    if (input.includes('\t')) {
+        return { cookies: parseNetscapeCookies(input) };
+    }
+
+    const cookies = input.split(';')
+        .map(pair => pair.trim())
+        .filter(pair => pair.includes('='))
+        .map(pair => {
+            const index = pair.indexOf('=');
+            return {
+                domain: domain.replace(/^\./, ''),
+                includeSubdomains: true,
+                path: '/',
+                secure: false,
+                httpOnly: false,
+                expires: 0,
+                name: pair.slice(0, index).trim(),
+                value: pair.slice(index + 1).trim()
+            };
+        });
+
+    return { cookies };
+}
+
+/**
+ * Run a function with a request-scoped cookie jar. Outbound requests made
+ * through httpRequest inside it use this jar instead of the configured one.
+ */
+export function runWithCookieJar<T>(jar: CookieJar, fn: () => Promise<T>): Promise<T> {
+    return requestJar.run(jar, fn);
+}
+
+async function getPlatformJar(platform: string): Promise<CookieJar | undefined> {
+    const file = options.files[platform];
+    if (!file) return undefined;
+
+    let jar = platformJars.get(platform);
+    if (!jar) {
+        jar = readFile(file, 'utf8')
+            .then(text => ({ cookies: parseNetscapeCookies(text), file }))
+            .catch(error => {
+                console.error(`Failed to load cookie file for ${platform}:`, error);
+                return { cookies: [], file };
+            });
+        platformJars.set(platform, jar);
+    }
+    return jar;
+}
+
+function domainMatches(cookie: Cookie, hostname: string): boolean {
+    if (hostname === cookie.domain) return true;
+    return cookie.includeSubdomains && hostname.endsWith(`.${cookie.domain}`);
+}
+
+function isExpired(cookie: Cookie): boolean {
+    return cookie.expires > 0 && cookie.expires * 1000 <= Date.now();
+}
+
+export function getCookieHeader(jar: CookieJar, url: string): string {
+    const { hostname, pathname, protocol } = new URL(url);
+    return jar.cookies
+        .filter(cookie =>
+            !isExpired(cookie) &&
+            domainMatches(cookie, hostname) &&
+            pathname.startsWith(cookie.path) &&
+            (!cookie.secure || protocol === 'https:')
+        )
+        .map(cookie => `${cookie.name}=${cookie.value}`)
+        .join('; ');
+}
+
+function parseSetCookie(header: string, url: URL): Cookie | undefined {
+    const [pair, ...attributes] = header.split(';');
+    const index = pair.indexOf('=');
+    if (index <= 0) return undefined;
+
+    const cookie: Cookie = {
+        domain: url.hostname,
+        includeSubdomains: false,
+        path: '/',
+        secure: false,
+        httpOnly: false,
+        expires: 0,
+        name: pair.slice(0, index).trim(),
+        value: pair.slice(index + 1).trim()
+    };
+
+    for (const attribute of attributes) {
+        const [rawKey, ...rest] = attribute.split('=');
+        const key = rawKey.trim().toLowerCase();
+        const value = rest.join('=').trim();
+
+        if (key === 'domain' && value) {
+            const domain = value.replace(/^\./, '').toLowerCase();
+            // Ignore cookies a host tries to set for an unrelated domain
+            if (url.hostname !== domain && !url.hostname.endsWith(`.${domain}`)) return undefined;
+            cookie.domain = domain;
+            cookie.includeSubdomains = true;
+        } else if (key === 'path' && value) {
+            cookie.path = value;
+        } else if (key === 'secure') {
+            cookie.secure = true;
+        } else if (key === 'httponly') {
+            cookie.httpOnly = true;
+        } else if (key === 'max-age') {
+            cookie.expires = Math.floor(Date.now() / 1000) + parseInt(value, 10);
+        } else if (key === 'expires' && !cookie.expires) {
+            const time = Date.parse(value);
+            if (!isNaN(time)) cookie.expires = Math.floor(time / 1000);
+        }
+    }
+
+    return cookie;
+}
+
+/**
+ * Merge Set-Cookie headers into the jar, replacing cookies with the same
+ * name, domain and path and dropping ones that arrive already expired
+ * @returns true when the jar changed
+ */
+export function storeSetCookies(jar: CookieJar, url: string, headers: string[]): boolean {
+    const requestUrl = new URL(url);
+    let changed = false;
+
+    for (const header of headers) {
+        const cookie = parseSetCookie(header, requestUrl);
+        if (!cookie) continue;
+
+        jar.cookies = jar.cookies.filter(existing =>
+            existing.name !== cookie.name || existing.domain !== cookie.domain || existing.path !== cookie.path
+        );
+        if (!isExpired(cookie)) {
+            jar.cookies.push(cookie);
+        }
+        changed = true;
+    }
+
+    return changed;
+}
+
+function persistJar(jar: CookieJar): void {
+    if (!jar.file || !options.persist) return;
+
+    const file = jar.file;
+    const contents = serializeNetscapeCookies(jar.cookies.filter(cookie => !isExpired(cookie)));
+    persistQueue = persistQueue
+        .then(() => writeFile(file, contents))
+        .catch(error => console.error(`Failed to save cookie file ${file}:`, error));
+}
+
+/**
+ * Jar used for requests to a platform: the request-scoped jar when one is
+ * active, otherwise the platform's configured cookie file
+ * @param platform Platform name used to pick the configured cookie file
+ */
+export async function getActiveCookieJar(platform: string): Promise<CookieJar | undefined> {
+    return requestJar.getStore() ?? await getPlatformJar(platform);
+}
+
+/**
+ * Store Set-Cookie headers from a response and save the jar if it changed
+ * @param jar Jar the request's cookies came from
+ * @param url Final response URL
+ * @param headers Raw Set-Cookie header values
+ */
+export function recordSetCookies(jar: CookieJar, url: string, headers: string[]): void {
+    if (storeSetCookies(jar, url, headers)) {
+        persistJar(jar);
+    }
+}
@@ -0,0 +1,364 @@
+// ./src/processor/download.ts
+import { Readable } from 'node:stream';
+import type { Response } from 'node-fetch';
+import sharp from 'sharp';
+import { extractVideo, extractVideoInfo, type VideoExtractRequest, type VideoMetadata } from './extractvideo';
+import { findExtractor, type PlatformExtractor } from './platform';
+import { muxStreams } from './mux';
+import { config } from '../config';
+import {
+    ExtractionError,
+    InvalidRequestError,
+    MergeTooLargeError,
+    NoMatchingFormatError,
+    UpstreamError,
+    UpstreamTimeoutError,
+    upstreamHttpError,
+    wrapError
+} from './errors';
+import { httpRequest } from './http';
+import { pickBestThumbnail } from './thumbnails';
+
+export interface DownloadRequest {
+    url: string;
+    format?: string;
+    quality?: string;
+    type?: 'audio' | 'video';
+    /** Merge the best video-only and audio-only streams into one file */
+    merge?: boolean;
+    /** Client cookies passed on to the extractor */
+    cookies?: string;
+    /** Raw Range header forwarded to the upstream server */
+    range?: string;
+    /** Format selector expression, replaces format, quality, type and merge */
+    select?: string;
+}
+
+export interface DownloadStream {
+    status: number;
+    headers: Record<string, string>;
+    body: ReadableStream | null;
+}
+
+export type ThumbnailFormat = 'jpeg' | 'png' | 'webp';
+
+export interface ThumbnailRequest {
+    /** Video URL */
+    url: string;
+    /** Maximum output size in pixels, the aspect ratio is kept */
+    width?: number;
+    height?: number;
+    /** Output format, the original image is passed through when neither this nor a size is given */
+    format?: ThumbnailFormat;
+    /** Client cookies passed on to the extractor */
+    cookies?: string;
+}
+
+export interface ThumbnailImage {
+    mimeType: string;
+    body: ReadableStream;
+}
+
+export const THUMBNAIL_FORMATS: ThumbnailFormat[] = ['jpeg', 'png', 'webp'];
+
+export const MAX_THUMBNAIL_SIZE = 4096;
+
+// Upstream response headers passed through to the client as-is
+const FORWARDED_HEADERS = ['content-length', 'content-range', 'accept-ranges', 'last-modified', 'etag'];
+
+// Adaptive streams are fetched in ranged chunks, large single requests get throttled
+const CHUNK_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Resolve a media format and open a stream to it through the server
+ * @param request DownloadRequest with the media URL and format selection
+ * @param signal Aborts the upstream requests, including a merge in progress
+ * @returns Promise<DownloadStream> ready to be sent back as a Response
+ */
+export async function openDownload(request: DownloadRequest, signal?: AbortSignal): Promise<DownloadStream> {
+    const extractRequest: VideoExtractRequest = {
+        url: request.url,
+        format: request.format,
+        quality: request.quality,
+        type: request.type,
+        download: true,
+        merge: request.merge,
+        cookies: request.cookies,
+        select: request.select
+    };
+    const result = await extractVideo(extractRequest);
+    const extractor = findExtractor(request.url);
+    const platform = extractor?.name ?? 'unknown';
+    const headers: Record<string, string> = {
+        ...extractor?.downloadHeaders
+    };
+
+    if (result.merged) {
+        return openMergedDownload(platform, result, headers, signal);
+    }
+
+    const selected = result.formats.find(format => format.url === result.downloadUrl) || result.formats[0];
+    if (selected.protocol) {
+        throw new InvalidRequestError(
+            `The selected format is a segmented ${selected.protocol.toUpperCase()} stream and can't be downloaded as a file, play its url instead`
+        );
+    }
+    if (request.range) {
+        headers['Range'] = request.range;
+    }
+
+    const response = await httpRequest(platform, selected.url, { headers, redirect: 'follow', streaming: true, signal });
+    if (!response.ok) {
+        throw upstreamHttpError(response.status, 'Upstream download failed');
+    }
+
+    const responseHeaders: Record<string, string> = {
+        'Content-Type': response.headers.get('content-type') || selected.mimeType || 'application/octet-stream',
+        'Content-Disposition': buildContentDisposition(result.title, selected.format)
+    };
+    for (const name of FORWARDED_HEADERS) {
+        const value = response.headers.get(name);
+        if (value) {
+            responseHeaders[name] = value;
+        }
+    }
+
+    return {
+        status: response.status,
+        headers: responseHeaders,
+        body: response.body ? toWebStream(response.body) : null
+    };
+}
+
+/**
+ * Download both sides of a merged format and mux them. The muxers need the
+ * whole streams, so the result is buffered and Range requests are ignored.
+ * Streams larger than download.maxMergeSize together are refused.
+ */
+async function openMergedDownload(
+    platform: string,
+    result: VideoMetadata,
+    headers: Record<string, string>,
+    signal?: AbortSignal
+): Promise<DownloadStream> {
+    const merged = result.merged!;
+    const limit = config.download.maxMergeSize;
+    if (merged.video.size + merged.audio.size > limit) {
+        throw mergeTooLarge(merged.video.size + merged.audio.size, limit);
+    }
+
+    // Sizes are often unknown before fetching, both downloads count against the same budget
+    const budget = { remaining: limit };
+    const [video, audio] = await Promise.all([
+        fetchBuffer(platform, merged.video.url, headers, budget, signal),
+        fetchBuffer(platform, merged.audio.url, headers, budget, signal)
+    ]);
+    const output = muxStreams(merged.format, video, audio);
+
+    return {
+        status: 200,
+        headers: {
+            'Content-Type': merged.mimeType,
+            'Content-Length': output.byteLength.toString(),
+            'Content-Disposition': buildContentDisposition(result.title, merged.format),
+            'Accept-Ranges': 'none'
+        },
+        body: new Blob([output]).stream()
+    };
+}
+
+async function fetchBuffer(
+    platform: string,
+    url: string,
+    headers: Record<string, string>,
+    budget: { remaining: number },
+    signal?: AbortSignal
+): Promise<Uint8Array> {
+    const chunks: Uint8Array[] = [];
+    let start = 0;
+    let total = Infinity;
+    let reserved = 0;
+
+    while (start < total) {
+        const end = start + CHUNK_SIZE - 1;
+        const response = await httpRequest(platform, url, {
+            headers: { ...headers, 'Range': `bytes=${start}-${end}` },
+            redirect: 'follow',
+            streaming: true,
+            signal
+        });
+        if (!response.ok) {
+            throw upstreamHttpError(response.status, 'Upstream download failed');
+        }
+
+        // Reserve the whole file as soon as its size is known, before reading the body
+        const contentRange = response.headers.get('content-range');
+        const rangeTotal = response.status === 206 ? contentRange?.match(/\/(\d+)$/)?.[1] : undefined;
+        const contentLength = parseInt(response.headers.get('content-length') ?? '', 10);
+        reserved = reserve(budget, reserved, rangeTotal
+            ? parseInt(rangeTotal, 10)
+            : start + (Number.isFinite(contentLength) ? contentLength : 0));
+
+        const chunk = await readChunk(response, url);
+        chunks.push(chunk);
+        reserved = reserve(budget, reserved, start + chunk.byteLength);
+
+        // Servers ignoring Range send the whole file at once
+        if (response.status !== 206 || !contentRange) break;
+
+        total = rangeTotal ? parseInt(rangeTotal, 10) : start + chunk.byteLength;
+        if (chunk.byteLength === 0) break;
+        start += chunk.byteLength;
+    }
+
+    const output = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.byteLength, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        output.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return output;
+}
+
+/**
+ * Read a chunk's body, failing when the upstream server stops sending data
+ * for longer than the HTTP timeout. The response is requested as streaming,
+ * so the timeout only covers stalls and slow but steady transfers go through.
+ */
+async function readChunk(response: Response, url: string): Promise<Uint8Array> {
+    const body = response.body as Readable | null;
+    if (!body) return new Uint8Array(0);
+
+    const timeout = config.http.timeout;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resetTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => body.destroy(new UpstreamTimeoutError(
+            `Download from ${new URL(url).hostname} stalled for ${timeout}ms`
+        )), timeout);
+    };
+
+    const parts: Buffer[] = [];
+    resetTimer();
+    try {
+        for await (const part of body) {
+            parts.push(part as Buffer);
+            resetTimer();
+        }
+    } finally {
+        clearTimeout(timer);
+    }
+    return Buffer.concat(parts);
+}
+
+/**
+ * Take the bytes of a download beyond what it already holds from the shared budget
+ * @returns The new number of bytes held by the download
+ */
+function reserve(budget: { remaining: number }, reserved: number, needed: number): number {
+    if (needed <= reserved) return reserved;
+    budget.remaining -= needed - reserved;
+    if (budget.remaining < 0) {
+        throw mergeTooLarge(undefined, config.download.maxMergeSize);
+    }
+    return needed;
+}
+
+function mergeTooLarge(size: number | undefined, limit: number): MergeTooLargeError {
+    const megabytes = (bytes: number) => `${Math.ceil(bytes / (1024 * 1024))} MB`;
+    return new MergeTooLargeError(size
+        ? `Merged download would be ${megabytes(size)}, the limit is ${megabytes(limit)}`
+        : `Merged download exceeds the limit of ${megabytes(limit)}`);
+}
+
+/**
+ * Fetch a video's best thumbnail through the server, optionally resized and
+ * converted
+ * @param request ThumbnailRequest with the video URL and output options
+ * @returns Promise<ThumbnailImage> ready to be sent back as a Response
+ */
+export async function openThumbnail(request: ThumbnailRequest): Promise<ThumbnailImage> {
+    if (!request.url) {
+        throw new InvalidRequestError('URL is required');
+    }
+    for (const [name, value] of [['width', request.width], ['height', request.height]] as const) {
+        if (value !== undefined && (!Number.isInteger(value) || value < 1 || value > MAX_THUMBNAIL_SIZE)) {
+            throw new InvalidRequestError(`${name} must be an integer between 1 and ${MAX_THUMBNAIL_SIZE}`);
+        }
+    }
+
+    try {
+        const extractor = findExtractor(request.url);
+        let { response, cached } = await fetchThumbnail(extractor, request, true);
+        // Signed cover URLs expire, a cached result may point at a dead one
+        if (cached && (response.status === 403 || response.status === 404)) {
+            ({ response } = await fetchThumbnail(extractor, request, false));
+        }
+        if (!response.ok) {
+            throw upstreamHttpError(response.status, 'Failed to fetch thumbnail');
+        }
+
+        if (!request.width && !request.height && !request.format) {
+            if (!response.body) {
+                throw new UpstreamError('Upstream returned an empty thumbnail');
+            }
+            return {
+                mimeType: response.headers.get('content-type') || 'image/jpeg',
+                body: toWebStream(response.body)
+            };
+        }
+
+        const format = request.format ?? 'jpeg';
+        let image: Buffer;
+        try {
+            image = await sharp(Buffer.from(await response.arrayBuffer()))
+                .resize({
+                    width: request.width,
+                    height: request.height,
+                    fit: 'inside',
+                    withoutEnlargement: true
+                })
+                .toFormat(format)
+                .toBuffer();
+        } catch (error) {
+            throw new ExtractionError(`Failed to convert thumbnail: ${error instanceof Error ? error.message : error}`);
+        }
+        return { mimeType: `image/${format}`, body: new Blob([new Uint8Array(image)]).stream() };
+    } catch (error) {
+        throw wrapError(error, 'Failed to fetch thumbnail');
+    }
+}
+
+async function fetchThumbnail(extractor: PlatformExtractor | undefined, request: ThumbnailRequest, cache: boolean) {
+    const video = await extractVideoInfo(request.url, cache, request.cookies);
+    const platform = extractor?.name ?? 'unknown';
+    // Listed sizes aren't always generated, only the thumbnail route pays for checking them
+    const url = (await pickBestThumbnail(platform, video.thumbnails ?? []))?.url || video.thumbnail;
+    if (!url) {
+        throw new NoMatchingFormatError('This video has no thumbnail');
+    }
+
+    const response = await httpRequest(platform, url, {
+        headers: { ...extractor?.downloadHeaders },
+        redirect: 'follow'
+    });
+    return { response, cached: video.cached === true };
+}
+
+// node-fetch hands back a Node stream, Response bodies need a web stream
+function toWebStream(body: NodeJS.ReadableStream): ReadableStream {
+    return Readable.toWeb(body as Readable) as unknown as ReadableStream;
+}
+
+function buildContentDisposition(title: string, format: string): string {
+    const extension = format && format !== 'unknown' ? format : 'bin';
+    const baseName = title
+        .replace(/[\\/:*?"<>|\x00-\x1f]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, 200) || 'download';
+    const fileName = `${baseName}.${extension}`;
+    // Plain filename for old clients, RFC 5987 filename* for everything else
+    const asciiName = fileName.replace(/[^\x20-\x7e]/g, '_');
+    return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
@@ -0,0 +1,155 @@
+// ./src/processor/errors.ts
+
+/**
+ * Base class for errors reported to API clients. `code` is stable and safe
+ * to branch on, `status` is the HTTP status the API responds with.
+ */
+export class MduError extends Error {
+    readonly code: string;
+    readonly status: number;
+
+    constructor(code: string, status: number, message: string) {
+        super(message);
+        this.name = new.target.name;
+        this.code = code;
+        this.status = status;
+    }
+}
+
+export class InvalidRequestError extends MduError {
+    constructor(message: string) {
+        super('INVALID_REQUEST', 400, message);
+    }
+}
+
+export class InvalidUrlError extends MduError {
+    constructor(message = 'Invalid URL') {
+        super('INVALID_URL', 400, message);
+    }
+}
+
+export class UnsupportedPlatformError extends MduError {
+    constructor(message = 'Unsupported platform') {
+        super('UNSUPPORTED_PLATFORM', 400, message);
+    }
+}
+
+export class VideoUnavailableError extends MduError {
+    constructor(message = 'Video is unavailable') {
+        super('VIDEO_UNAVAILABLE', 404, message);
+    }
+}
+
+export class VideoPrivateError extends MduError {
+    constructor(message = 'Video is private') {
+        super('VIDEO_PRIVATE', 403, message);
+    }
+}
+
+export class AgeRestrictedError extends MduError {
+    constructor(message = 'Video is age-restricted') {
+        super('AGE_RESTRICTED', 403, message);
+    }
+}
+
+export class GeoBlockedError extends MduError {
+    constructor(message = 'Video is not available in this region') {
+        super('GEO_BLOCKED', 403, message);
+    }
+}
+
+export class NoMatchingFormatError extends MduError {
+    constructor(message = 'No matching format found') {
+        super('NO_MATCHING_FORMAT', 400, message);
+    }
+}
+
+export class UpstreamError extends MduError {
+    /** Status code returned by the platform, if any */
+    readonly upstreamStatus?: number;
+
+    constructor(message: string, upstreamStatus?: number) {
+        super('UPSTREAM_ERROR', 502, message);
+        this.upstreamStatus = upstreamStatus;
+    }
+}
+
+export class UpstreamTimeoutError extends MduError {
+    constructor(message = 'Upstream request timed out') {
+        super('UPSTREAM_TIMEOUT', 504, message);
+    }
+}
+
+export class RateLimitedError extends MduError {
+    /** Seconds the client should wait before retrying */
+    readonly retryAfter?: number;
+
+    constructor(message = 'Too many requests', retryAfter?: number) {
+        super('RATE_LIMITED', 429, message);
+        this.retryAfter = retryAfter;
+    }
+}
+
+export class SubtitlesUnavailableError extends MduError {
+    constructor(message = 'No matching subtitles') {
+        super('SUBTITLES_UNAVAILABLE', 404, message);
+    }
+}
+
+export class MergeTooLargeError extends MduError {
+    constructor(message: string) {
+        super('MERGE_TOO_LARGE', 413, message);
+    }
+}
+
+export class MuxError extends MduError {
+    constructor(message: string) {
+        super('MUX_FAILED', 422, message);
+    }
+}
+
+export class JobNotFoundError extends MduError {
+    constructor(id: string) {
+        super('JOB_NOT_FOUND', 404, `Job ${id} not found`);
+    }
+}
+
+export class JobStateError extends MduError {
+    constructor(message: string) {
+        super('JOB_STATE_CONFLICT', 409, message);
+    }
+}
+
+export class ExtractionError extends MduError {
+    constructor(message: string) {
+        super('EXTRACTION_FAILED', 500, message);
+    }
+}
+
+/**
+ * Map a failed upstream HTTP response to the matching error
+ * @param status HTTP status returned by the platform
+ * @param context Short description of the request that failed
+ */
+export function upstreamHttpError(status: number, context: string): MduError {
+    if (status === 429) {
+        return new RateLimitedError(`${context}: rate limited by upstream`);
+    }
+    if (status === 404 || status === 410) {
+        return new VideoUnavailableError(`${context}: not found (HTTP ${status})`);
+    }
+    return new UpstreamError(`${context}: HTTP ${status}`, status);
+}
+
+/**
+ * Keep typed errors intact and wrap anything else in an ExtractionError
+ * @param error Caught value
+ * @param context Prefix describing the failed operation
+ */
+export function wrapError(error: unknown, context: string): MduError {
+    if (error instanceof MduError) {
+        return error;
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new ExtractionError(`${context}: ${message}`);
+}
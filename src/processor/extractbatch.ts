@@ -0,0 +1,150 @@
+// ./src/processor/extractbatch.ts
+import { findExtractor } from './platform';
+import { extractVideo, type VideoExtractRequest, type VideoMetadata } from './extractvideo';
+import { InvalidRequestError, wrapError } from './errors';
+import { config } from '../config';
+
+export interface BatchRequest {
+    items: VideoExtractRequest[];
+    /** Items extracted at the same time, capped at batch.concurrency */
+    concurrency?: number;
+    /** Client cookies applied to every item that doesn't bring its own */
+    cookies?: string;
+}
+
+export type BatchItemResult =
+    | { index: number; url: string; success: true; data: VideoMetadata }
+    | { index: number; url: string; success: false; error: { code: string; message: string } };
+
+export interface BatchResult {
+    total: number;
+    succeeded: number;
+    failed: number;
+    /** Results in the order of the request items */
+    results: BatchItemResult[];
+}
+
+interface BatchJob {
+    index: number;
+    item: VideoExtractRequest;
+    platform: string;
+}
+
+/**
+ * Check the batch size, so streaming responses can fail before they start
+ * @param request BatchRequest to check
+ */
+export function validateBatchRequest(request: BatchRequest): void {
+    if (!Array.isArray(request.items) || request.items.length === 0) {
+        throw new InvalidRequestError('items must contain at least one request');
+    }
+    if (request.items.length > config.batch.maxItems) {
+        throw new InvalidRequestError(`A batch can contain at most ${config.batch.maxItems} items`);
+    }
+}
+
+/**
+ * Extract several videos with bounded concurrency. Each platform is also
+ * limited to its own batchConcurrency so a batch of TikTok links can't starve
+ * the YouTube items. A failing item is reported in its result entry and
+ * doesn't affect the others.
+ * @param request BatchRequest with the items to extract
+ * @param onResult Called with each item's result as soon as it finishes
+ * @returns Promise<BatchResult> once every item has finished
+ * @throws The error thrown by onResult, no further items are started or reported after it
+ */
+export async function extractBatch(
+    request: BatchRequest,
+    onResult?: (result: BatchItemResult) => void
+): Promise<BatchResult> {
+    validateBatchRequest(request);
+
+    const concurrency = Math.max(1, Math.min(request.concurrency ?? config.batch.concurrency, config.batch.concurrency));
+    const pending: BatchJob[] = request.items.map((item, index) => ({
+        index,
+        item: { ...item, cookies: item.cookies ?? request.cookies },
+        platform: findPlatform(item.url)
+    }));
+    const results: BatchItemResult[] = new Array(pending.length);
+    const active = new Map<string, number>();
+
+    await new Promise<void>((resolve, reject) => {
+        let running = 0;
+        let finished = 0;
+        // Set once onResult throws, items that haven't started are skipped
+        let stopped = false;
+
+        // Start every waiting job that fits in the global and per-platform limits
+        const launch = () => {
+            for (let i = 0; i < pending.length && running < concurrency;) {
+                const job = pending[i];
+                if ((active.get(job.platform) ?? 0) >= getPlatformLimit(job.platform, concurrency)) {
+                    i++;
+                    continue;
+                }
+
+                pending.splice(i, 1);
+                running++;
+                active.set(job.platform, (active.get(job.platform) ?? 0) + 1);
+
+                runJob(job).then(result => {
+                    results[job.index] = result;
+                    running--;
+                    active.set(job.platform, active.get(job.platform)! - 1);
+                    finished++;
+
+                    if (stopped) return;
+                    try {
+                        onResult?.(result);
+                    } catch (error) {
+                        stopped = true;
+                        reject(error);
+                        return;
+                    }
+
+                    if (finished === results.length) {
+                        resolve();
+                    } else {
+                        launch();
+                    }
+                });
+            }
+        };
+
+        launch();
+    });
+
+    const succeeded = results.filter(result => result.success).length;
+    return {
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        results
+    };
+}
+
+async function runJob(job: BatchJob): Promise<BatchItemResult> {
+    const url = typeof job.item.url === 'string' ? job.item.url : '';
+    try {
+        const data = await extractVideo(job.item);
+        return { index: job.index, url, success: true, data };
+    } catch (error) {
+        const failure = wrapError(error, 'Error extracting video');
+        return {
+            index: job.index,
+            url,
+            success: false,
+            error: { code: failure.code, message: failure.message }
+        };
+    }
+}
+
+// Invalid URLs are grouped under 'unknown' and fail fast in extractVideo
+function findPlatform(url: unknown): string {
+    return typeof url === 'string' ? findExtractor(url)?.name ?? 'unknown' : 'unknown';
+}
+
+function getPlatformLimit(platform: string, concurrency: number): number {
+    const platformConfig = config.platforms[platform as keyof typeof config.platforms];
+    return platformConfig?.batchConcurrency ?? concurrency;
+}
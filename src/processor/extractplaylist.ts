@@ -0,0 +1,140 @@
+// ./src/processor/extractplaylist.ts
+import { findExtractor, getExtractors, type PlatformExtractor } from './platform';
+import { extractVideo, type VideoMetadata } from './extractvideo';
+import { createRequestCookieJar, runWithCookieJar } from './cookies';
+import {
+    InvalidRequestError,
+    UnsupportedPlatformError,
+    wrapError
+} from './errors';
+
+export interface PlaylistRequest {
+    url: string;
+    /** Maximum number of entries returned in one page */
+    limit?: number;
+    /** Opaque token from a previous page's `continuation` */
+    continuation?: string;
+    /** Fully extract every entry, attaching its metadata and formats */
+    extract?: boolean;
+    /** Format and quality used when extracting entries */
+    format?: string;
+    quality?: string;
+    /** Client cookies (header string or Netscape file) used instead of the configured jar */
+    cookies?: string;
+}
+
+export interface PlaylistEntry {
+    id: string;
+    url: string;
+    title: string;
+    /** Duration in seconds, 0 when unknown */
+    duration: number;
+    thumbnail?: string;
+    /** 1-based position in the playlist or channel */
+    index: number;
+    /** Post caption, for feeds that have one */
+    description?: string;
+    /** Unix time in seconds the entry was published, when known */
+    createdAt?: number;
+    stats?: PlaylistEntryStats;
+    /** Extraction result, only present when entries are extracted */
+    video?: VideoMetadata;
+    /** Why extraction failed for this entry */
+    error?: { code: string; message: string };
+}
+
+export interface PlaylistEntryStats {
+    views: number;
+    likes: number;
+    comments: number;
+    shares: number;
+}
+
+export interface PlaylistPage {
+    id: string;
+    title: string;
+    kind: 'playlist' | 'channel' | 'user' | 'hashtag';
+    entries: PlaylistEntry[];
+    /** Pass back as `continuation` to get the next page, absent on the last page */
+    continuation?: string;
+}
+
+export const DEFAULT_PLAYLIST_LIMIT = 100;
+export const MAX_PLAYLIST_LIMIT = 500;
+
+// Entries are extracted a few at a time so one playlist can't monopolise
+// the outbound rate limit
+const EXTRACT_CONCURRENCY = 3;
+
+/**
+ * List the entries of a playlist, channel or similar feed
+ * @param request PlaylistRequest with the feed URL and pagination options
+ * @returns Promise<PlaylistPage> with one page of entries
+ */
+export async function extractPlaylist(request: PlaylistRequest): Promise<PlaylistPage & { platform: string }> {
+    if (!request.url) {
+        throw new InvalidRequestError('URL is required');
+    }
+
+    const limit = request.limit ?? DEFAULT_PLAYLIST_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PLAYLIST_LIMIT) {
+        throw new InvalidRequestError(`limit must be an integer between 1 and ${MAX_PLAYLIST_LIMIT}`);
+    }
+
+    try {
+        const extractor = findPlaylistExtractor(request.url);
+
+        const list = () => extractor.extractPlaylist!(request.url, { limit, continuation: request.continuation });
+        const page = request.cookies
+            ? await runWithCookieJar(
+                createRequestCookieJar(request.cookies, extractor.cookieDomain ?? new URL(request.url).hostname),
+                list
+            )
+            : await list();
+
+        if (request.extract) {
+            await extractEntries(page.entries, request);
+        }
+
+        return { platform: extractor.name, ...page };
+    } catch (error) {
+        throw wrapError(error, 'Error extracting playlist');
+    }
+}
+
+function findPlaylistExtractor(url: string): PlatformExtractor {
+    const extractor = findExtractor(url);
+    if (!extractor) {
+        const supported = getExtractors()
+            .filter(candidate => candidate.extractPlaylist)
+            .map(candidate => candidate.name)
+            .join(', ');
+        throw new UnsupportedPlatformError(`Unsupported platform. Playlists are supported for: ${supported}`);
+    }
+    if (!extractor.extractPlaylist || !extractor.matchesPlaylist?.(url)) {
+        throw new InvalidRequestError(`URL is not a ${extractor.name} playlist, channel or feed`);
+    }
+    return extractor;
+}
+
+async function extractEntries(entries: PlaylistEntry[], request: PlaylistRequest): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+        while (next < entries.length) {
+            const entry = entries[next++];
+            try {
+                entry.video = await extractVideo({
+                    url: entry.url,
+                    format: request.format,
+                    quality: request.quality,
+                    cookies: request.cookies
+                });
+            } catch (error) {
+                const failure = wrapError(error, 'Error extracting video');
+                entry.error = { code: failure.code, message: failure.message };
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(EXTRACT_CONCURRENCY, entries.length) }, worker));
+}
@@ -0,0 +1,158 @@
+// ./src/processor/extractsubtitles.ts
+import { findExtractor, getExtractors, type PlatformExtractor } from './platform';
+import { createRequestCookieJar, runWithCookieJar } from './cookies';
+import {
+    InvalidRequestError,
+    UnsupportedPlatformError,
+    wrapError
+} from './errors';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'txt';
+
+export interface SubtitleRequest {
+    url: string;
+    /** Language code of the track, the platform's default track when absent */
+    language?: string;
+    /** true for automatic captions only, false for uploaded subtitles only */
+    autoGenerated?: boolean;
+    /** Language code to machine translate the track to */
+    translateTo?: string;
+    format?: SubtitleFormat;
+    /** Client cookies (header string or Netscape file) used instead of the configured jar */
+    cookies?: string;
+}
+
+export interface SubtitleCue {
+    /** Start and end in milliseconds */
+    start: number;
+    end: number;
+    text: string;
+}
+
+export interface SubtitleDocument {
+    /** Language of the returned text, the target language when translated */
+    language: string;
+    name: string;
+    autoGenerated: boolean;
+    /** Language of the original track when the text was translated */
+    translatedFrom?: string;
+    cues: SubtitleCue[];
+}
+
+export interface SubtitleFile {
+    platform: string;
+    language: string;
+    autoGenerated: boolean;
+    translatedFrom?: string;
+    format: SubtitleFormat;
+    mimeType: string;
+    content: string;
+}
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'txt'];
+
+const MIME_TYPES: Record<SubtitleFormat, string> = {
+    srt: 'application/x-subrip',
+    vtt: 'text/vtt',
+    txt: 'text/plain'
+};
+
+/**
+ * Fetch a subtitle track and convert it to SRT, WebVTT or plain text
+ * @param request SubtitleRequest with the video URL and track selection
+ * @returns Promise<SubtitleFile> with the converted text
+ */
+export async function extractSubtitles(request: SubtitleRequest): Promise<SubtitleFile> {
+    if (!request.url) {
+        throw new InvalidRequestError('URL is required');
+    }
+
+    const format = request.format ?? 'srt';
+    if (!SUBTITLE_FORMATS.includes(format)) {
+        throw new InvalidRequestError(`format must be one of ${SUBTITLE_FORMATS.join(', ')}`);
+    }
+
+    try {
+        const extractor = findSubtitleExtractor(request.url);
+
+        const options = {
+            language: request.language,
+            autoGenerated: request.autoGenerated,
+            translateTo: request.translateTo
+        };
+        const read = () => extractor.fetchSubtitles!(request.url, options);
+        const document = request.cookies
+            ? await runWithCookieJar(
+                createRequestCookieJar(request.cookies, extractor.cookieDomain ?? new URL(request.url).hostname),
+                read
+            )
+            : await read();
+
+        return {
+            platform: extractor.name,
+            language: document.language,
+            autoGenerated: document.autoGenerated,
+            translatedFrom: document.translatedFrom,
+            format,
+            mimeType: MIME_TYPES[format],
+            content: formatSubtitles(document.cues, format)
+        };
+    } catch (error) {
+        throw wrapError(error, 'Error extracting subtitles');
+    }
+}
+
+/**
+ * Render cues in one of the supported subtitle formats
+ * @param cues Cues in playback order
+ * @param format 'srt', 'vtt' or 'txt'
+ * @returns Subtitle file contents
+ */
+export function formatSubtitles(cues: SubtitleCue[], format: SubtitleFormat): string {
+    switch (format) {
+        case 'srt':
+            return cues
+                .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+                .join('\n');
+        case 'vtt':
+            return 'WEBVTT\n\n' + cues
+                .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${escapeVtt(cue.text)}\n`)
+                .join('\n');
+        case 'txt':
+            // Automatic captions repeat lines while they scroll, keep each once
+            return cues
+                .flatMap(cue => cue.text.split('\n'))
+                .filter((line, index, lines) => line.trim() && line !== lines[index - 1])
+                .join('\n') + '\n';
+    }
+}
+
+function findSubtitleExtractor(url: string): PlatformExtractor {
+    const extractor = findExtractor(url);
+    if (!extractor) {
+        const supported = getExtractors()
+            .filter(candidate => candidate.fetchSubtitles)
+            .map(candidate => candidate.name)
+            .join(', ');
+        throw new UnsupportedPlatformError(`Unsupported platform. Subtitles are supported for: ${supported}`);
+    }
+    if (!extractor.fetchSubtitles) {
+        throw new InvalidRequestError(`Subtitles are not supported for ${extractor.name}`);
+    }
+    return extractor;
+}
+
+// 3723004 -> '01:02:03,004'
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+    const total = Math.max(0, Math.round(ms));
+    const hours = Math.floor(total / 3600000);
+    const minutes = Math.floor(total / 60000) % 60;
+    const seconds = Math.floor(total / 1000) % 60;
+    const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+// WebVTT cue text treats these as markup
+function escapeVtt(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -1,10 +1,16 @@
 // ./src/process/extractvideo.ts
-import { 
-    detectPlatform,
-    extractYouTubeVideo,
-    extractTikTokVideo,
-    isPlatform
-} from './platform';
+import { findExtractor, getExtractors, type PlatformExtractor } from './platform';
+import { canMux } from './mux';
+import { matchesQuality, parseFormatSelector, selectFormat } from './formatselector';
+import { buildDashManifest, isDashRepresentable } from './manifest';
+import { buildCacheKey, getCachedResult, setCachedResult } from './cache';
+import { createRequestCookieJar, runWithCookieJar } from './cookies';
+import {
+    InvalidRequestError,
+    NoMatchingFormatError,
+    UnsupportedPlatformError,
+    wrapError
+} from './errors';
 
 export interface VideoExtractRequest {
     url: string;
@@ -13,24 +19,96 @@ export interface VideoExtractRequest {
     download?: boolean;
     info?: boolean;
     type?: 'audio' | 'video';
+    /** Pair the best video-only and audio-only streams for server-side merging */
+    merge?: boolean;
+    /** Set to false to bypass cached results and refresh the cache entry */
+    cache?: boolean;
+    /** Client cookies (header string or Netscape file) used instead of the configured jar */
+    cookies?: string;
+    /** Format selector expression, replaces format, quality, type and merge */
+    select?: string;
 }
 
 export interface VideoFormat {
     quality: string;
     format: string;
+    /** Container MIME type without parameters, e.g. video/mp4 */
     mimeType: string;
     type: 'audio' | 'video';
+    /** Size in bytes, 0 when unknown */
     size: number;
     url: string;
+    hasVideo: boolean;
+    hasAudio: boolean;
+    /** YouTube format ID */
+    itag?: number;
+    width?: number;
+    height?: number;
+    fps?: number;
+    /** Bits per second */
+    bitrate?: number;
+    /** Codecs parameter of the MIME type, e.g. 'avc1.640028, mp4a.40.2' */
+    codecs?: string;
+    /** Audio sample rate in Hz */
+    audioSampleRate?: number;
+    audioChannels?: number;
+    hdr?: boolean;
+    /** True for streams carrying the platform's watermark */
+    watermark?: boolean;
+    /**
+     * Set when url isn't a plain media file: 'hls' for an HLS media playlist,
+     * 'dash' for a DASH MPD holding the segmented representation (see itag)
+     */
+    protocol?: 'dash' | 'hls';
+    /** Byte ranges ('start-end') of the initialization segment and segment index, used for DASH */
+    initRange?: string;
+    indexRange?: string;
+    /** InnerTube client whose player response listed the format (YouTube) */
+    client?: string;
+    /** Position of the video in posts carrying several videos or GIFs, from 1 (Twitter, Reddit) */
+    mediaIndex?: number;
+}
+
+export interface Thumbnail {
+    url: string;
+    /** Size in pixels, when the platform reports it */
+    width?: number;
+    height?: number;
+}
+
+export interface SubtitleTrack {
+    /** Language code, e.g. 'en' or 'pt-BR' */
+    language: string;
+    /** Display name given by the platform */
+    name: string;
+    /** Speech recognition captions rather than uploaded subtitles */
+    autoGenerated: boolean;
+    /** The platform can machine translate the track, see /subtitles */
+    translatable: boolean;
+}
+
+export interface MergedFormat {
+    format: string;
+    mimeType: string;
+    video: VideoFormat;
+    audio: VideoFormat;
 }
 
 export interface VideoMetadata {
     title: string;
     description?: string;
     duration: number;
+    /** Largest thumbnail the platform reports, /thumbnail checks which sizes exist */
     thumbnail?: string;
+    /** Every thumbnail the platform offers, largest first */
+    thumbnails?: Thumbnail[];
     formats: VideoFormat[];
     downloadUrl?: string;
+    merged?: MergedFormat;
+    /** Subtitle tracks, only reported by platforms that have them */
+    subtitles?: SubtitleTrack[];
+    /** True when the result was served from the extraction cache */
+    cached?: boolean;
 }
 
 /**
@@ -41,7 +119,7 @@ export interface VideoMetadata {
 export async function extractVideo(request: VideoExtractRequest): Promise<VideoMetadata> {
     // Validate request
     if (!request.url) {
-        throw new Error('URL is required');
+        throw new InvalidRequestError('URL is required');
     }
 
     // Set default values
@@ -56,83 +134,70 @@ export async function extractVideo(request: VideoExtractRequest): Promise<VideoM
 
     // Detect platform and extract
     try {
-        let result: VideoMetadata;
-        const platform = detectPlatform(params.url);
-
-        switch (platform) {
-            case 'youtube':
-                result = await extractYouTubeVideo(params.url, params.format, params.quality);
-                // Apply format filtering for YouTube
-                if (params.format) {
-                    result.formats = result.formats.filter(format => 
-                        format.format.toLowerCase() === params.format?.toLowerCase()
-                    );
-                    if (result.formats.length === 0) {
-                        throw new Error(`No formats matching '${params.format}' found`);
-                    }
-                }
-                // Apply quality filtering for YouTube
-                if (params.quality && params.quality !== 'highest') {
-                    result.formats = result.formats.filter(format => 
-                        format.quality.toLowerCase().includes(params.quality?.toLowerCase() || '')
-                    );
-                    if (result.formats.length === 0) {
-                        throw new Error(`No quality matching '${params.quality}' found`);
-                    }
-                }
-                // Sort by quality if 'highest' is requested
-                if (params.quality === 'highest') {
-                    result.formats.sort((a, b) => {
-                        const getQualityNumber = (quality: string) => {
-                            const match = quality.match(/(\d+)p/);
-                            return match ? parseInt(match[1]) : 0;
-                        };
-                        return getQualityNumber(b.quality) - getQualityNumber(a.quality);
-                    });
-                }
-                break;
-
-            case 'tiktok':
-                result = await extractTikTokVideo(params.url);
-                // Apply format filtering for TikTok
-                if (params.format) {
-                    result.formats = result.formats.filter(format => 
-                        format.format.toLowerCase() === params.format?.toLowerCase()
-                    );
-                    if (result.formats.length === 0) {
-                        throw new Error(`No formats matching '${params.format}' found`);
-                    }
-                }
-                // Apply quality filtering for TikTok
-                if (params.quality && params.quality !== 'highest') {
-                    result.formats = result.formats.filter(format => 
-                        format.quality.toLowerCase().includes(params.quality?.toLowerCase() || '')
-                    );
-                    if (result.formats.length === 0) {
-                        throw new Error(`No quality matching '${params.quality}' found`);
-                    }
-                }
-                // Sort by quality if 'highest' is requested
-                if (params.quality === 'highest') {
-                    result.formats.sort((a, b) => {
-                        // Prioritize no-watermark versions
-                        if (a.quality.includes('no watermark') && !b.quality.includes('no watermark')) return -1;
-                        if (!a.quality.includes('no watermark') && b.quality.includes('no watermark')) return 1;
-                        // Then prioritize by size if available
-                        return (b.size || 0) - (a.size || 0);
-                    });
-                }
-                break;
-
-            default:
-                throw new Error(`Unsupported platform. Currently supports: ${getSupportedPlatforms()}`);
+        const extractor = findExtractor(params.url);
+        if (!extractor) {
+            throw new UnsupportedPlatformError(`Unsupported platform. Currently supports: ${getSupportedPlatforms()}`);
+        }
+
+        // Reject a malformed selector before doing any network work
+        const selector = params.select ? parseFormatSelector(params.select) : undefined;
+
+        const result = await runExtractor(extractor, params);
+
+        if (selector) {
+            const selection = selectFormat(result.formats, selector);
+            if (selection.kind === 'merge') {
+                result.merged = {
+                    format: selection.format,
+                    mimeType: `video/${selection.format}`,
+                    video: selection.video,
+                    audio: selection.audio
+                };
+                result.formats = params.info ? [] : [selection.video, selection.audio];
+                return result;
+            }
+
+            result.formats = params.info ? [] : [selection.format];
+            if (params.download && !params.info) {
+                result.downloadUrl = selection.format.url;
+            }
+            return result;
+        }
+
+        // Merging picks its own pair of streams, the filters below would
+        // drop the audio-only side
+        if (params.merge) {
+            result.merged = selectMergeFormats(result.formats, params, extractor.sortFormats);
+            result.formats = params.info ? [] : [result.merged.video, result.merged.audio];
+            return result;
+        }
+
+        // Apply format filtering
+        if (params.format) {
+            result.formats = result.formats.filter(format => 
+                format.format.toLowerCase() === params.format?.toLowerCase()
+            );
+            if (result.formats.length === 0) {
+                throw new NoMatchingFormatError(`No formats matching '${params.format}' found`);
+            }
+        }
+        // Apply quality filtering
+        if (params.quality && params.quality !== 'highest') {
+            result.formats = result.formats.filter(format => matchesQuality(format.quality, params.quality!));
+            if (result.formats.length === 0) {
+                throw new NoMatchingFormatError(`No quality matching '${params.quality}' found`);
+            }
+        }
+        // Sort using the platform's preferred order if 'highest' is requested
+        if (params.quality === 'highest') {
+            result.formats.sort(extractor.sortFormats);
         }
 
         // Filter formats by type if specified (applies to all platforms)
         if (params.type) {
             result.formats = result.formats.filter(format => format.type === params.type);
             if (result.formats.length === 0) {
-                throw new Error(`No ${params.type} formats found`);
+                throw new NoMatchingFormatError(`No ${params.type} formats found`);
             }
         }
 
@@ -140,12 +205,13 @@ export async function extractVideo(request: VideoExtractRequest): Promise<VideoM
         result.formats = result.formats.filter(format => format.url && format.url.length > 0);
         
         if (result.formats.length === 0) {
-            throw new Error('No valid formats found with URLs');
+            throw new NoMatchingFormatError('No valid formats found with URLs');
         }
 
-        // Set download URL to highest quality format if download is requested
+        // Set download URL to highest quality format if download is requested,
+        // preferring single files since HLS and DASH formats can share their container
         if (params.download) {
-            result.downloadUrl = result.formats[0].url;
+            result.downloadUrl = (result.formats.find(format => !format.protocol) ?? result.formats[0]).url;
         }
 
         // Remove formats if only info is requested
@@ -155,20 +221,176 @@ export async function extractVideo(request: VideoExtractRequest): Promise<VideoM
         }
 
         return result;
-    } catch (error: any) {
-        throw new Error(`Error extracting video: ${error.message}`);
+    } catch (error) {
+        throw wrapError(error, 'Error extracting video');
+    }
+}
+
+/**
+ * List every format of a video, filtered by media type
+ * @param url Video URL
+ * @param type Optional media type filter
+ * @param cache Set to false to bypass cached results
+ * @param cookies Client cookies used instead of the configured jar
+ * @param select Optional format selector, only the formats it picks are listed
+ * @returns Promise resolving to the platform name, formats and cache status
+ */
+export async function listVideoFormats(
+    url: string,
+    type?: 'audio' | 'video',
+    cache = true,
+    cookies?: string,
+    select?: string
+): Promise<{ platform: string; formats: VideoFormat[]; cached: boolean }> {
+    const extractor = findExtractor(url);
+    if (!extractor) {
+        throw new UnsupportedPlatformError(`Unsupported platform. Currently supports: ${getSupportedPlatforms()}`);
+    }
+
+    const selector = select ? parseFormatSelector(select) : undefined;
+    const result = await runExtractor(extractor, { url, cache, cookies });
+    let formats = type ? result.formats.filter(format => format.type === type) : result.formats;
+    if (selector) {
+        const selection = selectFormat(formats, selector);
+        formats = selection.kind === 'merge' ? [selection.video, selection.audio] : [selection.format];
+    }
+
+    return {
+        platform: extractor.name,
+        formats,
+        cached: result.cached === true
+    };
+}
+
+/**
+ * Extract a video's metadata with every format it has, without the format,
+ * quality and type filters of extractVideo. Used where only details such as
+ * thumbnails matter, so videos with HLS-only formats work too.
+ * @param url Video URL
+ * @param cache Set to false to bypass cached results
+ * @param cookies Client cookies used instead of the configured jar
+ * @returns Promise<VideoMetadata>, cached tells whether it came from the cache
+ */
+export async function extractVideoInfo(url: string, cache = true, cookies?: string): Promise<VideoMetadata> {
+    const extractor = findExtractor(url);
+    if (!extractor) {
+        throw new UnsupportedPlatformError(`Unsupported platform. Currently supports: ${getSupportedPlatforms()}`);
+    }
+    return runExtractor(extractor, { url, cache, cookies });
+}
+
+/**
+ * Generate a DASH MPD for the separate video and audio streams of a video
+ * @param url Video URL
+ * @param cache Set to false to bypass cached results
+ * @param cookies Client cookies used instead of the configured jar
+ * @returns Promise resolving to the platform name and the MPD document
+ */
+export async function extractDashManifest(
+    url: string,
+    cache = true,
+    cookies?: string
+): Promise<{ platform: string; manifest: string }> {
+    const extractor = findExtractor(url);
+    if (!extractor) {
+        throw new UnsupportedPlatformError(`Unsupported platform. Currently supports: ${getSupportedPlatforms()}`);
+    }
+
+    let result = await runExtractor(extractor, { url, cache, cookies });
+    // Results cached before byte ranges were recorded can't be described
+    if (result.cached && !result.formats.some(isDashRepresentable)) {
+        result = await runExtractor(extractor, { url, cache: false, cookies });
+    }
+    if (!result.formats.some(isDashRepresentable)) {
+        throw new NoMatchingFormatError(
+            'No separate video and audio streams with byte ranges to build a DASH manifest from'
+        );
+    }
+
+    return {
+        platform: extractor.name,
+        manifest: buildDashManifest(result.formats, result.duration)
+    };
+}
+
+/**
+ * Run the platform extractor, going through the extraction cache when the
+ * URL maps to a canonical video ID
+ */
+async function runExtractor(extractor: PlatformExtractor, params: VideoExtractRequest): Promise<VideoMetadata> {
+    // Results fetched with a client's own cookies may contain content other
+    // clients can't see, so they bypass the shared cache entirely
+    if (params.cookies) {
+        const domain = extractor.cookieDomain ?? new URL(params.url).hostname;
+        const jar = createRequestCookieJar(params.cookies, domain);
+        const result = await runWithCookieJar(jar, () => extractor.extract(params.url, params));
+        return { ...result, cached: false };
+    }
+
+    const videoId = extractor.getVideoId?.(params.url);
+    const key = videoId ? buildCacheKey(extractor.name, videoId) : undefined;
+
+    if (key && params.cache !== false) {
+        const cached = await getCachedResult(key);
+        if (cached) {
+            return { ...cached, cached: true };
+        }
+    }
+
+    const result = await extractor.extract(params.url, params);
+    if (key) {
+        await setCachedResult(key, extractor.name, result);
+    }
+    return { ...result, cached: false };
+}
+
+/**
+ * Pick the best video-only stream matching the request and the best audio-only
+ * stream in the same container
+ * @param formats Formats returned by the platform extractor
+ * @param params Request with optional format and quality constraints
+ * @param sortFormats Platform comparator ordering video formats best first
+ * @returns MergedFormat describing the pair to mux
+ */
+function selectMergeFormats(
+    formats: VideoFormat[],
+    params: VideoExtractRequest,
+    sortFormats: (a: VideoFormat, b: VideoFormat) => number
+): MergedFormat {
+    // Segmented manifest streams can't be fetched as one file
+    const files = formats.filter(format => !format.protocol);
+    let videos = files.filter(format => format.hasVideo && format.hasAudio === false && canMux(format.format));
+    if (params.format) {
+        videos = videos.filter(format => format.format.toLowerCase() === params.format?.toLowerCase());
     }
+    if (params.quality && params.quality !== 'highest') {
+        videos = videos.filter(format => matchesQuality(format.quality, params.quality!));
+    }
+    videos.sort(sortFormats);
+
+    for (const video of videos) {
+        const audio = files
+            .filter(format => format.hasAudio && format.hasVideo === false && format.format === video.format)
+            .sort((a, b) => (b.size || 0) - (a.size || 0))[0];
+        if (audio) {
+            return {
+                format: video.format,
+                mimeType: `video/${video.format}`,
+                video,
+                audio
+            };
+        }
+    }
+
+    throw new NoMatchingFormatError('No separate video and audio streams available to merge');
 }
 
 /**
  * Get list of supported platforms
  * @returns string of comma-separated platform names
  */
-function getSupportedPlatforms(): string {
-    const platforms = [];
-    // Get all platform checks from isPlatform
-    for (const [platform] of Object.entries(isPlatform)) {
-        platforms.push(platform.charAt(0).toUpperCase() + platform.slice(1));
-    }
-    return platforms.join(', ');
+export function getSupportedPlatforms(): string {
+    return getExtractors()
+        .map(({ name }) => name.charAt(0).toUpperCase() + name.slice(1))
+        .join(', ');
 }
\ No newline at end of file
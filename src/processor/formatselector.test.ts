@@ -0,0 +1,133 @@
+// ./src/processor/formatselector.test.ts
+import { describe, expect, test } from 'bun:test';
+import { matchesQuality, parseFormatSelector, selectFormat } from './formatselector';
+import { InvalidRequestError, NoMatchingFormatError } from './errors';
+import type { VideoFormat } from './extractvideo';
+
+function format(overrides: Partial<VideoFormat>): VideoFormat {
+    return {
+        quality: 'unknown',
+        format: 'mp4',
+        mimeType: 'video/mp4',
+        type: 'video',
+        size: 0,
+        url: `https://example.com/${overrides.itag ?? 0}`,
+        hasVideo: true,
+        hasAudio: false,
+        ...overrides
+    };
+}
+
+const formats: VideoFormat[] = [
+    format({ itag: 18, quality: '360p', height: 360, hasAudio: true, codecs: 'avc1.42001E, mp4a.40.2' }),
+    format({ itag: 22, quality: '720p', height: 720, hasAudio: true, codecs: 'avc1.64001F, mp4a.40.2' }),
+    format({ itag: 137, quality: '1080p', height: 1080, codecs: 'avc1.640028' }),
+    format({ itag: 136, quality: '720p', height: 720, codecs: 'avc1.4d401f' }),
+    format({ itag: 248, quality: '1080p', height: 1080, format: 'webm', mimeType: 'video/webm', codecs: 'vp9' }),
+    format({ itag: 140, quality: '128kbps', type: 'audio', mimeType: 'audio/mp4', hasVideo: false, hasAudio: true, bitrate: 128000, codecs: 'mp4a.40.2' }),
+    format({ itag: 251, quality: '160kbps', type: 'audio', format: 'webm', mimeType: 'audio/webm', hasVideo: false, hasAudio: true, bitrate: 160000, codecs: 'opus' }),
+    format({ itag: 96, quality: '1080p', height: 1080, hasAudio: true, protocol: 'hls', format: 'ts', mimeType: 'video/mp2t' })
+];
+
+describe('parseFormatSelector', () => {
+    test('parses alternatives, merges and filters', () => {
+        const selector = parseFormatSelector('bv[height<=720][ext=mp4]+ba/best');
+        expect(selector).toHaveLength(2);
+        expect(selector[0].spec.pool).toBe('bestvideo');
+        expect(selector[0].spec.filters).toEqual([
+            { field: 'height', op: '<=', value: '720', optional: false },
+            { field: 'ext', op: '=', value: 'mp4', optional: false }
+        ]);
+        expect(selector[0].audio?.pool).toBe('bestaudio');
+        expect(selector[1]).toEqual({ spec: { pool: 'best', filters: [] } });
+    });
+
+    test('reads a space between two formats as +', () => {
+        expect(parseFormatSelector('bv ba')).toEqual(parseFormatSelector('bv+ba'));
+        expect(parseFormatSelector('bv[height<=720] ba/b')).toEqual(parseFormatSelector('bv[height<=720]+ba/b'));
+    });
+
+    test('ignores spaces inside filters', () => {
+        expect(parseFormatSelector('bv[height <= 720] ba')).toEqual(parseFormatSelector('bv[height<=720]+ba'));
+        expect(parseFormatSelector('bv[ fps >= ? 30 ][ext = mp4]')).toEqual(parseFormatSelector('bv[fps>=?30][ext=mp4]'));
+    });
+
+    test('parses itags and optional filters', () => {
+        const [choice] = parseFormatSelector('137[fps>=?30]');
+        expect(choice.spec).toEqual({
+            pool: 'itag',
+            itag: 137,
+            filters: [{ field: 'fps', op: '>=', value: '30', optional: true }]
+        });
+    });
+
+    test.each([
+        ['', 'expected best'],
+        ['bestest', "unknown format 'bestest'"],
+        ['best[colour=red]', "unknown field 'colour'"],
+        ['best[height~720]', "expected an operator after 'height'"],
+        ['best[height 720]', "expected an operator after 'height'"],
+        ['best[ext<mp4]', "'<' can't be used with 'ext'"],
+        ['best[height<=720', "expected ']'"],
+        ['best[height<=tall]', "'tall' is not a number"],
+        ['best[hdr=yes]', "'hdr' must be true or false"],
+        ['best,worst', "unexpected ','"]
+    ])('rejects %p', (expression, message) => {
+        expect(() => parseFormatSelector(expression)).toThrow(InvalidRequestError);
+        expect(() => parseFormatSelector(expression)).toThrow(message);
+    });
+});
+
+describe('selectFormat', () => {
+    test('picks the best muxed format', () => {
+        expect(selectFormat(formats, 'best')).toEqual({ kind: 'single', format: formats[7] });
+        expect(selectFormat(formats, 'best[protocol=https]')).toEqual({ kind: 'single', format: formats[1] });
+        expect(selectFormat(formats, 'worst')).toEqual({ kind: 'single', format: formats[0] });
+    });
+
+    test('pairs video and audio in the same container', () => {
+        const selection = selectFormat(formats, 'bv+ba');
+        expect(selection).toMatchObject({ kind: 'merge', format: 'mp4' });
+        if (selection.kind !== 'merge') throw new Error('expected a merge');
+        expect(selection.video.itag).toBe(137);
+        expect(selection.audio.itag).toBe(140);
+
+        expect(selectFormat(formats, 'bv[ext=webm] ba')).toMatchObject({
+            kind: 'merge',
+            format: 'webm',
+            video: { itag: 248 },
+            audio: { itag: 251 }
+        });
+    });
+
+    test('applies filters with value suffixes and codec aliases', () => {
+        expect(selectFormat(formats, 'bv[height<=720]')).toMatchObject({ format: { itag: 136 } });
+        expect(selectFormat(formats, 'ba[bitrate<150k]')).toMatchObject({ format: { itag: 140 } });
+        expect(selectFormat(formats, 'bv[codec=h264]')).toMatchObject({ format: { itag: 137 } });
+        expect(selectFormat(formats, 'bv[codec!=avc1]')).toMatchObject({ format: { itag: 248 } });
+        expect(selectFormat(formats, 'best[quality=360]')).toMatchObject({ format: { itag: 18 } });
+    });
+
+    test('falls back to later alternatives', () => {
+        expect(selectFormat(formats, 'bv[height>1080]/22')).toMatchObject({ format: { itag: 22 } });
+    });
+
+    test('treats missing fields according to the optional marker', () => {
+        expect(() => selectFormat(formats, 'bv[fps>=30]')).toThrow(NoMatchingFormatError);
+        expect(selectFormat(formats, 'bv[fps>=?30]')).toMatchObject({ format: { itag: 137 } });
+    });
+
+    test('throws when nothing matches', () => {
+        expect(() => selectFormat(formats, 'best[height>2000]')).toThrow("No formats match 'best[height>2000]'");
+    });
+});
+
+describe('matchesQuality', () => {
+    test('matches labels by prefix without splitting numbers', () => {
+        expect(matchesQuality('720p', '720')).toBe(true);
+        expect(matchesQuality('720p60', '720p')).toBe(true);
+        expect(matchesQuality('7200p', '720')).toBe(false);
+        expect(matchesQuality('original (watermark)', 'original')).toBe(true);
+        expect(matchesQuality(undefined, '720')).toBe(false);
+    });
+});
@@ -0,0 +1,339 @@
+// ./src/processor/formatselector.ts
+import type { VideoFormat } from './extractvideo';
+import { canMux } from './mux';
+import { InvalidRequestError, NoMatchingFormatError } from './errors';
+
+/*
+ * Format selectors pick formats with expressions such as
+ *
+ *     bestvideo[height<=720][ext=mp4]+bestaudio/best
+ *
+ * Alternatives are separated by '/' and tried left to right. 'A+B' merges a
+ * video-only and an audio-only stream in the same container, 'A B' is read
+ * the same way since query strings decode '+' to a space. Each part names
+ * a pool (best, worst, bestvideo, worstvideo, bestaudio, worstaudio, or an
+ * itag) followed by [field op value] filters. A '?' after the operator also
+ * accepts formats that don't report the field, e.g. [height<=?720].
+ */
+
+export type FormatSelection =
+    | { kind: 'single'; format: VideoFormat }
+    | { kind: 'merge'; format: string; video: VideoFormat; audio: VideoFormat };
+
+type Operator = '=' | '!=' | '<' | '<=' | '>' | '>=' | '^=' | '*=' | '$=';
+
+type FilterField = keyof typeof FIELDS;
+
+interface FormatFilter {
+    field: FilterField;
+    op: Operator;
+    value: string;
+    /** Formats without the field pass the filter */
+    optional: boolean;
+}
+
+interface FormatSpec {
+    pool: 'best' | 'worst' | 'bestvideo' | 'worstvideo' | 'bestaudio' | 'worstaudio' | 'itag';
+    itag?: number;
+    filters: FormatFilter[];
+}
+
+interface FormatChoice {
+    spec: FormatSpec;
+    /** Audio side of 'A+B' */
+    audio?: FormatSpec;
+}
+
+export type FormatSelector = FormatChoice[];
+
+const POOLS: Record<string, FormatSpec['pool']> = {
+    best: 'best', b: 'best',
+    worst: 'worst', w: 'worst',
+    bestvideo: 'bestvideo', bv: 'bestvideo',
+    worstvideo: 'worstvideo', wv: 'worstvideo',
+    bestaudio: 'bestaudio', ba: 'bestaudio',
+    worstaudio: 'worstaudio', wa: 'worstaudio'
+};
+
+// Longest first so '<=' isn't read as '<'
+const OPERATORS: Operator[] = ['<=', '>=', '!=', '^=', '*=', '$=', '<', '>', '='];
+
+const NUMBER_OPERATORS: Operator[] = ['=', '!=', '<', '<=', '>', '>='];
+const STRING_OPERATORS: Operator[] = ['=', '!=', '^=', '*=', '$='];
+const BOOLEAN_OPERATORS: Operator[] = ['=', '!='];
+
+// Filterable fields, with the multiplier of the K/M/G value suffixes for numbers
+const FIELDS = {
+    height: { kind: 'number', unit: 1000 },
+    width: { kind: 'number', unit: 1000 },
+    fps: { kind: 'number', unit: 1000 },
+    size: { kind: 'number', unit: 1024 },
+    bitrate: { kind: 'number', unit: 1000 },
+    media: { kind: 'number' },
+    ext: { kind: 'string' },
+    codec: { kind: 'string' },
+    quality: { kind: 'string' },
+    protocol: { kind: 'string' },
+    watermark: { kind: 'boolean' },
+    hdr: { kind: 'boolean' }
+} as const;
+
+// Codec names accepted for the identifiers found in MIME types
+const CODEC_ALIASES: Record<string, string> = {
+    h264: 'avc1', avc: 'avc1',
+    h265: 'hevc', hvc1: 'hevc', hev1: 'hevc',
+    vp9: 'vp09', vp8: 'vp8',
+    av1: 'av01',
+    aac: 'mp4a'
+};
+
+/**
+ * Parse a format selector expression
+ * @param expression Selector such as 'bestvideo[height<=720]+bestaudio/best'
+ * @returns FormatSelector ready for selectFormat
+ * @throws InvalidRequestError pointing at the first problem
+ */
+export function parseFormatSelector(expression: string): FormatSelector {
+    let pos = 0;
+
+    const fail = (message: string): never => {
+        throw new InvalidRequestError(`Invalid format selector '${expression}': ${message} at position ${pos + 1}`);
+    };
+    const skipSpaces = () => {
+        while (expression[pos] === ' ') pos++;
+    };
+
+    // Spaces inside the brackets are padding, only spaces between specs mean '+'
+    const parseFilter = (): FormatFilter => {
+        pos++; // '['
+        skipSpaces();
+        const fieldStart = pos;
+        while (/[a-z]/i.test(expression[pos] ?? '')) pos++;
+        const name = expression.slice(fieldStart, pos).toLowerCase();
+        if (!name) fail('expected a filter field');
+        if (!(name in FIELDS)) {
+            pos = fieldStart;
+            fail(`unknown field '${name}', expected one of ${Object.keys(FIELDS).join(', ')}`);
+        }
+        const field = name as FilterField;
+        skipSpaces();
+
+        const op = OPERATORS.find(candidate => expression.startsWith(candidate, pos));
+        if (!op) fail(`expected an operator after '${field}'`);
+        const allowed = { number: NUMBER_OPERATORS, string: STRING_OPERATORS, boolean: BOOLEAN_OPERATORS }[FIELDS[field].kind];
+        if (!allowed.includes(op!)) fail(`'${op}' can't be used with '${field}'`);
+        pos += op!.length;
+        skipSpaces();
+
+        const optional = expression[pos] === '?';
+        if (optional) pos++;
+        skipSpaces();
+
+        const end = expression.indexOf(']', pos);
+        if (end === -1) fail("expected ']'");
+        const value = expression.slice(pos, end).trim();
+        if (!value) fail(`expected a value for '${field}'`);
+        if (FIELDS[field].kind === 'number' && parseNumber(value, 1) === undefined) fail(`'${value}' is not a number`);
+        if (FIELDS[field].kind === 'boolean' && value !== 'true' && value !== 'false') fail(`'${field}' must be true or false`);
+        pos = end + 1;
+
+        return { field, op: op!, value, optional };
+    };
+
+    const parseSpec = (): FormatSpec => {
+        skipSpaces();
+        const nameStart = pos;
+        while (/[a-z0-9]/i.test(expression[pos] ?? '')) pos++;
+        const name = expression.slice(nameStart, pos).toLowerCase();
+        if (!name) fail('expected best, worst, bestvideo, bestaudio or a format ID');
+
+        let spec: FormatSpec;
+        if (/^\d+$/.test(name)) {
+            spec = { pool: 'itag', itag: parseInt(name, 10), filters: [] };
+        } else if (POOLS[name]) {
+            spec = { pool: POOLS[name], filters: [] };
+        } else {
+            pos = nameStart;
+            return fail(`unknown format '${name}'`);
+        }
+
+        while (expression[pos] === '[') {
+            spec.filters.push(parseFilter());
+        }
+        skipSpaces();
+        return spec;
+    };
+
+    const selector: FormatSelector = [];
+    for (;;) {
+        const choice: FormatChoice = { spec: parseSpec() };
+        // An unencoded '+' in a query string arrives as a space, so spaces between two specs merge them too
+        const spaced = pos > 0 && expression[pos - 1] === ' ' && /[a-z0-9]/i.test(expression[pos] ?? '');
+        if (expression[pos] === '+' || spaced) {
+            if (!spaced) pos++;
+            choice.audio = parseSpec();
+        }
+        selector.push(choice);
+
+        if (pos >= expression.length) break;
+        if (expression[pos] !== '/') fail(`unexpected '${expression[pos]}'`);
+        pos++;
+    }
+    return selector;
+}
+
+/**
+ * Pick the formats described by a selector. The first alternative that
+ * matches wins.
+ * @param formats Formats returned by the platform extractor
+ * @param selector Parsed selector or selector expression
+ * @returns FormatSelection with one format, or a video and audio pair to merge
+ * @throws NoMatchingFormatError when no alternative matches
+ */
+export function selectFormat(formats: VideoFormat[], selector: FormatSelector | string): FormatSelection {
+    const choices = typeof selector === 'string' ? parseFormatSelector(selector) : selector;
+
+    for (const choice of choices) {
+        if (!choice.audio) {
+            const format = rankFormats(formats, choice.spec)[0];
+            if (format) return { kind: 'single', format };
+            continue;
+        }
+
+        // Try the videos best first until one has a matching audio stream
+        const videos = rankFormats(formats, choice.spec)
+            .filter(format => format.hasVideo && !format.hasAudio && !format.protocol && canMux(format.format));
+        for (const video of videos) {
+            const audio = rankFormats(formats, choice.audio)
+                .find(format => format.hasAudio && !format.hasVideo && !format.protocol && format.format === video.format);
+            if (audio) return { kind: 'merge', format: video.format, video, audio };
+        }
+    }
+
+    const expression = typeof selector === 'string' ? selector : 'the format selector';
+    throw new NoMatchingFormatError(`No formats match '${expression}'`);
+}
+
+/**
+ * Compare a quality label with a requested quality. '720' and '720p' match
+ * '720p' and '720p60' but not '1720p'; 'original' matches 'original (watermark)'.
+ */
+export function matchesQuality(label: string | undefined, quality: string): boolean {
+    const normalizedLabel = (label ?? '').toLowerCase();
+    const normalizedQuality = quality.toLowerCase();
+    if (!normalizedLabel.startsWith(normalizedQuality)) return false;
+
+    // '720' must not match '7200p'
+    return !(/\d$/.test(normalizedQuality) && /\d/.test(normalizedLabel.charAt(normalizedQuality.length)));
+}
+
+// Formats of the spec's pool passing its filters, best first
+function rankFormats(formats: VideoFormat[], spec: FormatSpec): VideoFormat[] {
+    const candidates = formats.filter(format => inPool(format, spec) &&
+        spec.filters.every(filter => matchesFilter(format, filter)));
+
+    candidates.sort(compareFormats);
+    if (spec.pool.startsWith('worst')) {
+        candidates.reverse();
+    }
+    return candidates;
+}
+
+function inPool(format: VideoFormat, spec: FormatSpec): boolean {
+    switch (spec.pool) {
+        case 'best':
+        case 'worst':
+            return format.hasVideo && format.hasAudio;
+        case 'bestvideo':
+        case 'worstvideo':
+            return format.hasVideo && !format.hasAudio;
+        case 'bestaudio':
+        case 'worstaudio':
+            return format.hasAudio && !format.hasVideo;
+        case 'itag':
+            return format.itag === spec.itag;
+    }
+}
+
+function matchesFilter(format: VideoFormat, filter: FormatFilter): boolean {
+    const definition: { kind: string; unit?: number } = FIELDS[filter.field];
+    const { kind } = definition;
+    const actual = readField(format, filter.field);
+    if (actual === undefined) return filter.optional;
+
+    if (kind === 'boolean') {
+        const equal = actual === (filter.value === 'true');
+        return filter.op === '=' ? equal : !equal;
+    }
+
+    if (kind === 'number') {
+        const expected = parseNumber(filter.value, definition.unit ?? 1)!;
+        const value = actual as number;
+        switch (filter.op) {
+            case '=': return value === expected;
+            case '!=': return value !== expected;
+            case '<': return value < expected;
+            case '<=': return value <= expected;
+            case '>': return value > expected;
+            case '>=': return value >= expected;
+            default: return false;
+        }
+    }
+
+    if (filter.field === 'quality' && (filter.op === '=' || filter.op === '!=')) {
+        return matchesQuality(actual as string, filter.value) === (filter.op === '=');
+    }
+
+    // Codecs are compared one by one, 'avc1' matches 'avc1.640028'
+    const values = filter.field === 'codec'
+        ? (actual as string).split(',').map(codec => normalizeCodec(codec.trim()))
+        : [(actual as string).toLowerCase()];
+    const expected = filter.field === 'codec' ? normalizeCodec(filter.value) : filter.value.toLowerCase();
+    const test = (value: string) => {
+        switch (filter.op) {
+            case '^=': return value.startsWith(expected);
+            case '*=': return value.includes(expected);
+            case '$=': return value.endsWith(expected);
+            default: return value === expected || (filter.field === 'codec' && value.startsWith(`${expected}.`));
+        }
+    };
+    return filter.op === '!=' ? !values.some(test) : values.some(test);
+}
+
+function readField(format: VideoFormat, field: FilterField): string | number | boolean | undefined {
+    switch (field) {
+        case 'size': return format.size || undefined;
+        case 'ext': return format.format;
+        case 'codec': return format.codecs;
+        case 'protocol': return format.protocol ?? 'https';
+        case 'media': return format.mediaIndex;
+        case 'watermark': return format.watermark ?? false;
+        default: return format[field];
+    }
+}
+
+// 'avc1.640028' -> 'avc1.640028', 'h264' -> 'avc1'
+function normalizeCodec(codec: string): string {
+    const lower = codec.toLowerCase();
+    const [name, ...profile] = lower.split('.');
+    const alias = CODEC_ALIASES[name];
+    return alias ? [alias, ...profile].join('.') : lower;
+}
+
+// '720', '720p', '50M' -> number, the suffix multiplies by unit, unit² or unit³
+function parseNumber(value: string, unit: number): number | undefined {
+    const match = value.match(/^(\d+(?:\.\d+)?)\s*([kmg]?)(?:p|i?b)?$/i);
+    if (!match) return undefined;
+    const power = ['', 'k', 'm', 'g'].indexOf(match[2].toLowerCase());
+    return parseFloat(match[1]) * unit ** power;
+}
+
+// Higher is better: no watermark, resolution, frame rate, bitrate, sample rate, size
+function compareFormats(a: VideoFormat, b: VideoFormat): number {
+    return Number(a.watermark ?? false) - Number(b.watermark ?? false) ||
+        (b.height ?? 0) - (a.height ?? 0) ||
+        (b.fps ?? 0) - (a.fps ?? 0) ||
+        (b.bitrate ?? 0) - (a.bitrate ?? 0) ||
+        (b.audioSampleRate ?? 0) - (a.audioSampleRate ?? 0) ||
+        (b.size || 0) - (a.size || 0);
+}
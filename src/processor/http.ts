@@ -0,0 +1,211 @@
+// ./src/processor/http.ts
+import fetch, { type RequestInit, type Response } from 'node-fetch';
+import type { Agent } from 'node:http';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+import { config } from '../config';
+import { getActiveCookieJar, getCookieHeader, recordSetCookies } from './cookies';
+import { socksTransport } from './sockstransport';
+import { acquireOutboundSlot } from './ratelimit';
+import { UpstreamError, UpstreamTimeoutError } from './errors';
+
+export interface HttpRequestOptions extends RequestInit {
+    /** Milliseconds before the request is aborted, 0 disables the timeout */
+    timeout?: number;
+    /** Retries on network errors, 429 and 5xx responses */
+    retries?: number;
+    /**
+     * Only time out while waiting for the response headers, for bodies that
+     * are streamed to the client and may legitimately take minutes
+     */
+    streaming?: boolean;
+}
+
+/** Function that performs the actual request, replaceable for tests */
+export type HttpTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface HttpOptions {
+    transport: HttpTransport;
+    /** Rewrites every outbound URL, lets tests point platforms at a local server */
+    rewriteUrl?: (url: string) => string;
+    timeout: number;
+    retries: number;
+    /** Base delay in milliseconds, doubled after every attempt */
+    retryDelay: number;
+    /** Upper bound for a single backoff, including Retry-After from upstream */
+    maxRetryDelay: number;
+    /** Proxy URLs, one is used at a time and the next one after a failure */
+    proxies: string[];
+    /** User agents picked at random per request, keyed by platform */
+    userAgents: Record<string, string[]>;
+}
+
+const defaultOptions = (): HttpOptions => ({
+    transport: (url, init) => fetch(url, init),
+    rewriteUrl: undefined,
+    timeout: config.http.timeout,
+    retries: config.http.retries,
+    retryDelay: config.http.retryDelay,
+    maxRetryDelay: 10000,
+    proxies: config.http.proxies,
+    userAgents: Object.fromEntries(
+        Object.entries(config.platforms).map(([name, platform]) => [name, platform.userAgents])
+    )
+});
+
+let options: HttpOptions = defaultOptions();
+
+// Agents are reused so connections to a proxy are kept alive
+const proxyAgents = new Map<string, Agent>();
+
+// Index of the proxy currently in use per platform
+const proxyIndex = new Map<string, number>();
+
+export function configureHttp(overrides: Partial<HttpOptions>): void {
+    Object.assign(options, overrides);
+    proxyIndex.clear();
+}
+
+/**
+ * Restore the options derived from the configuration, undoing configureHttp
+ */
+export function resetHttp(): void {
+    options = defaultOptions();
+    proxyIndex.clear();
+}
+
+/**
+ * Pick a user agent from the platform's pool
+ * @param platform Platform name, platforms without a pool get the YouTube one
+ */
+export function pickUserAgent(platform: string): string {
+    const pool = options.userAgents[platform]?.length ? options.userAgents[platform] : options.userAgents.youtube;
+    return pool[Math.floor(Math.random() * pool.length)];
+}
+
+function getProxy(platform: string): string | undefined {
+    if (options.proxies.length === 0) return undefined;
+    return options.proxies[(proxyIndex.get(platform) ?? 0) % options.proxies.length];
+}
+
+function getProxyAgent(proxy: string): Agent {
+    let agent = proxyAgents.get(proxy);
+    if (!agent) {
+        agent = proxy.startsWith('socks') ? new SocksProxyAgent(proxy) : new HttpsProxyAgent(proxy);
+        proxyAgents.set(proxy, agent);
+    }
+    return agent;
+}
+
+// Move on to the next proxy once the current one fails or gets blocked
+function rotateProxy(platform: string): void {
+    if (options.proxies.length > 1) {
+        proxyIndex.set(platform, (proxyIndex.get(platform) ?? 0) + 1);
+    }
+}
+
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+function getRetryDelay(attempt: number, response?: Response): number {
+    const retryAfter = response?.headers.get('retry-after');
+    const seconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+    const delay = !isNaN(seconds)
+        ? seconds * 1000
+        : options.retryDelay * 2 ** attempt * (0.5 + Math.random() / 2);
+    return Math.min(delay, options.maxRetryDelay);
+}
+
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+    return Object.keys(headers).some(key => key.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Send a request to a platform. Adds a user agent from the platform's pool
+ * and its cookies, routes through the configured proxies, times out, and
+ * retries network errors, 429 and 5xx responses with exponential backoff.
+ * Every attempt waits for a slot from the platform's outbound rate limiter.
+ * @param platform Platform name used for cookies, user agents and proxy rotation
+ * @param url Request URL
+ * @param init Request options, see HttpRequestOptions
+ * @returns Promise<Response> the last response received, check `ok` as usual
+ */
+export async function httpRequest(platform: string, url: string, init: HttpRequestOptions = {}): Promise<Response> {
+    const { timeout = options.timeout, retries = options.retries, streaming = false, ...requestInit } = init;
+    const headers: Record<string, string> = { ...(requestInit.headers as Record<string, string> | undefined) };
+    if (!hasHeader(headers, 'user-agent')) {
+        headers['User-Agent'] = pickUserAgent(platform);
+    }
+
+    const jar = await getActiveCookieJar(platform);
+    const targetUrl = options.rewriteUrl ? options.rewriteUrl(url) : url;
+
+    for (let attempt = 0; ; attempt++) {
+        await acquireOutboundSlot(platform);
+
+        const attemptHeaders = { ...headers };
+        const cookieHeader = jar ? getCookieHeader(jar, url) : '';
+        if (cookieHeader) {
+            attemptHeaders['Cookie'] = attemptHeaders['Cookie'] ? `${attemptHeaders['Cookie']}; ${cookieHeader}` : cookieHeader;
+        }
+
+        const controller = new AbortController();
+        const timer = timeout > 0 ? setTimeout(() => controller.abort(), timeout) : undefined;
+        const signal = requestInit.signal
+            ? AbortSignal.any([requestInit.signal as AbortSignal, controller.signal])
+            : controller.signal;
+
+        // Node uses the agent, Bun's node-fetch is its native fetch which
+        // ignores agents and takes the proxy URL instead. It only speaks HTTP
+        // proxies, SOCKS requests go through node:http with the agent there.
+        const proxy = getProxy(platform);
+        const proxyInit = proxy ? { agent: getProxyAgent(proxy), proxy } : {};
+        const transport = proxy?.startsWith('socks') && process.versions.bun ? socksTransport : options.transport;
+
+        let response: Response;
+        try {
+            response = await transport(targetUrl, {
+                ...requestInit,
+                ...proxyInit,
+                headers: attemptHeaders,
+                signal
+            });
+        } catch (error) {
+            clearTimeout(timer);
+            if (requestInit.signal?.aborted) throw error;
+
+            rotateProxy(platform);
+            if (attempt < retries) {
+                await new Promise(resolve => setTimeout(resolve, getRetryDelay(attempt)));
+                continue;
+            }
+            const { hostname } = new URL(url);
+            if (controller.signal.aborted) {
+                throw new UpstreamTimeoutError(`Request to ${hostname} timed out after ${timeout}ms`);
+            }
+            throw new UpstreamError(`Request to ${hostname} failed: ${error instanceof Error ? error.message : 'network error'}`);
+        }
+
+        if (streaming) {
+            clearTimeout(timer);
+        } else if (timer) {
+            // The timeout also covers reading the body, stop it once that's done
+            response.body?.once('close', () => clearTimeout(timer));
+        }
+
+        const setCookies = response.headers.raw()['set-cookie'] || [];
+        if (jar && setCookies.length > 0) {
+            recordSetCookies(jar, response.url || url, setCookies);
+        }
+
+        if (isRetryableStatus(response.status) && attempt < retries) {
+            if (response.status === 429) rotateProxy(platform);
+            await response.arrayBuffer().catch(() => undefined);
+            await new Promise(resolve => setTimeout(resolve, getRetryDelay(attempt, response)));
+            continue;
+        }
+
+        return response;
+    }
+}
@@ -0,0 +1,205 @@
+// ./src/processor/manifest.test.ts
+import { describe, expect, test } from 'bun:test';
+import { buildDashManifest, isDashRepresentable, parseDashManifest, parseHlsPlaylist } from './manifest';
+import type { VideoFormat } from './extractvideo';
+
+const MPD = `<?xml version="1.0" encoding="UTF-8"?>
+<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" type="static">
+  <BaseURL>https://cdn.example.com/video/</BaseURL>
+  <Period>
+    <AdaptationSet mimeType="video/mp4">
+      <Representation id="137" codecs="avc1.640028" bandwidth="4000000" width="1920" height="1080" frameRate="60000/1001">
+        <BaseURL>1080.mp4</BaseURL>
+        <SegmentBase indexRange="708-1000">
+          <Initialization range="0-707"/>
+        </SegmentBase>
+      </Representation>
+      <Representation id="v720" codecs="avc1.4d401f" bandwidth="2000000" width="1280" height="720" frameRate="30">
+        <SegmentTemplate media="720/$Number$.m4s" initialization="720/init.mp4"/>
+      </Representation>
+    </AdaptationSet>
+    <AdaptationSet mimeType="audio/mp4" audioSamplingRate="44100">
+      <AudioChannelConfiguration schemeIdUri="urn:mpeg:dash:23003:3:audio_channel_configuration:2011" value="2"/>
+      <Representation id="140" codecs="mp4a.40.2" bandwidth="128000">
+        <BaseURL>audio.mp4</BaseURL>
+      </Representation>
+    </AdaptationSet>
+  </Period>
+</MPD>`;
+
+const MASTER_PLAYLIST = `#EXTM3U
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="English",LANGUAGE="en",CHANNELS="2",URI="audio/en.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="opus",NAME="Opus",URI="audio/opus.m3u8"
+#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="English",URI="subs/en.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=1280000,AVERAGE-BANDWIDTH=1000000,CODECS="avc1.4d401f,mp4a.40.2",RESOLUTION=1280x720,FRAME-RATE=30,VIDEO-RANGE=SDR,AUDIO="aac"
+720/index.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=5000000,CODECS="vp09.00.40.08",RESOLUTION=1920x1080,FRAME-RATE=60,VIDEO-RANGE=PQ,AUDIO="opus"
+https://other.example.com/1080/index.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=64000,CODECS="mp4a.40.5"
+audio-only.m3u8
+`;
+
+describe('parseDashManifest', () => {
+    const formats = parseDashManifest(MPD, 'https://example.com/manifest.mpd');
+
+    test('lists every representation of the first period', () => {
+        expect(formats.map(format => format.quality)).toEqual(['1080p60', '720p', '128kbps']);
+    });
+
+    test('resolves single-file representations with their byte ranges', () => {
+        expect(formats[0]).toMatchObject({
+            format: 'mp4',
+            mimeType: 'video/mp4',
+            type: 'video',
+            url: 'https://cdn.example.com/video/1080.mp4',
+            hasVideo: true,
+            hasAudio: false,
+            itag: 137,
+            width: 1920,
+            height: 1080,
+            fps: 59.94,
+            bitrate: 4000000,
+            initRange: '0-707',
+            indexRange: '708-1000'
+        });
+        expect(formats[0].protocol).toBeUndefined();
+    });
+
+    test('points segmented representations at the manifest', () => {
+        expect(formats[1]).toMatchObject({
+            url: 'https://example.com/manifest.mpd',
+            protocol: 'dash',
+            height: 720
+        });
+        expect(formats[1].itag).toBeUndefined();
+    });
+
+    test('reads audio attributes inherited from the adaptation set', () => {
+        expect(formats[2]).toMatchObject({
+            type: 'audio',
+            hasVideo: false,
+            hasAudio: true,
+            audioSampleRate: 44100,
+            audioChannels: 2,
+            url: 'https://cdn.example.com/video/audio.mp4'
+        });
+    });
+
+    test('returns nothing without a period', () => {
+        expect(parseDashManifest('<MPD/>', 'https://example.com/manifest.mpd')).toEqual([]);
+    });
+});
+
+describe('parseHlsPlaylist', () => {
+    const formats = parseHlsPlaylist(MASTER_PLAYLIST, 'https://example.com/hls/master.m3u8');
+    const byUrl = (url: string) => formats.find(format => format.url === url);
+
+    test('lists variant streams and audio renditions with URIs', () => {
+        expect(formats.map(format => format.url)).toEqual([
+            'https://example.com/hls/audio/en.m3u8',
+            'https://example.com/hls/audio/opus.m3u8',
+            'https://example.com/hls/720/index.m3u8',
+            'https://other.example.com/1080/index.m3u8',
+            'https://example.com/hls/audio-only.m3u8'
+        ]);
+        expect(formats.every(format => format.protocol === 'hls')).toBe(true);
+    });
+
+    test('reads variant attributes', () => {
+        expect(byUrl('https://example.com/hls/720/index.m3u8')).toMatchObject({
+            quality: '720p',
+            type: 'video',
+            hasVideo: true,
+            hasAudio: true,
+            width: 1280,
+            height: 720,
+            fps: 30,
+            bitrate: 1000000,
+            hdr: false
+        });
+        expect(byUrl('https://other.example.com/1080/index.m3u8')).toMatchObject({
+            quality: '1080p60',
+            hasAudio: false,
+            hdr: true
+        });
+        expect(byUrl('https://example.com/hls/audio-only.m3u8')).toMatchObject({
+            quality: '64kbps',
+            type: 'audio',
+            hasVideo: false,
+            hasAudio: true
+        });
+        expect(byUrl('https://example.com/hls/audio/en.m3u8')).toMatchObject({
+            quality: 'English',
+            audioChannels: 2
+        });
+    });
+
+    test('infers the segment container from the codecs', () => {
+        expect(byUrl('https://example.com/hls/720/index.m3u8')).toMatchObject({ format: 'ts', mimeType: 'video/mp2t' });
+        expect(byUrl('https://other.example.com/1080/index.m3u8')).toMatchObject({ format: 'mp4', mimeType: 'video/mp4' });
+        expect(byUrl('https://example.com/hls/audio-only.m3u8')).toMatchObject({ format: 'ts', mimeType: 'audio/mp2t' });
+        // Renditions follow the variants of their group
+        expect(byUrl('https://example.com/hls/audio/en.m3u8')).toMatchObject({ format: 'ts', mimeType: 'audio/mp2t' });
+        expect(byUrl('https://example.com/hls/audio/opus.m3u8')).toMatchObject({ format: 'mp4', mimeType: 'audio/mp4' });
+    });
+
+    test('uses the container given by the caller', () => {
+        const fmp4 = parseHlsPlaylist(MASTER_PLAYLIST, 'https://example.com/hls/master.m3u8', 'mp4');
+        expect(fmp4.every(format => format.format === 'mp4')).toBe(true);
+        expect(fmp4.map(format => format.mimeType)).toEqual(['audio/mp4', 'audio/mp4', 'video/mp4', 'video/mp4', 'audio/mp4']);
+    });
+
+    test('reads the itag from YouTube playlist URLs', () => {
+        const [format] = parseHlsPlaylist(
+            '#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=1000,RESOLUTION=640x360\nhttps://manifest.googlevideo.com/api/manifest/hls_playlist/itag/93/index.m3u8\n',
+            'https://manifest.googlevideo.com/api/manifest/hls_variant/master.m3u8'
+        );
+        expect(format).toMatchObject({ itag: 93, hasVideo: true, hasAudio: true, height: 360 });
+    });
+});
+
+describe('buildDashManifest', () => {
+    const formats: VideoFormat[] = [
+        {
+            quality: '128kbps', format: 'mp4', mimeType: 'audio/mp4', type: 'audio', size: 0,
+            url: 'https://example.com/audio?a=1&b=2', hasVideo: false, hasAudio: true, itag: 140,
+            bitrate: 128000, codecs: 'mp4a.40.2', audioSampleRate: 44100, audioChannels: 2,
+            initRange: '0-631', indexRange: '632-999'
+        },
+        {
+            quality: '1080p', format: 'mp4', mimeType: 'video/mp4', type: 'video', size: 0,
+            url: 'https://example.com/video', hasVideo: true, hasAudio: false, itag: 137,
+            width: 1920, height: 1080, fps: 30, bitrate: 4000000, codecs: 'avc1.640028',
+            initRange: '0-707', indexRange: '708-1000'
+        },
+        {
+            quality: '720p', format: 'mp4', mimeType: 'video/mp4', type: 'video', size: 0,
+            url: 'https://example.com/muxed', hasVideo: true, hasAudio: true, itag: 22
+        }
+    ];
+
+    test('skips formats that need separate byte ranges', () => {
+        expect(formats.map(isDashRepresentable)).toEqual([true, true, false]);
+    });
+
+    test('round-trips through parseDashManifest', () => {
+        const mpd = buildDashManifest(formats, 212);
+        expect(mpd).toContain('mediaPresentationDuration="PT212S"');
+        expect(mpd).toContain('https://example.com/audio?a=1&amp;b=2');
+
+        const parsed = parseDashManifest(mpd, 'https://example.com/manifest.mpd');
+        expect(parsed.map(format => format.itag)).toEqual([137, 140]);
+        expect(parsed[0]).toMatchObject({
+            url: 'https://example.com/video',
+            width: 1920,
+            height: 1080,
+            initRange: '0-707',
+            indexRange: '708-1000'
+        });
+        expect(parsed[1]).toMatchObject({
+            url: 'https://example.com/audio?a=1&b=2',
+            audioSampleRate: 44100,
+            audioChannels: 2
+        });
+    });
+});
@@ -0,0 +1,283 @@
+// ./src/processor/manifest.ts
+import * as cheerio from 'cheerio';
+import type { VideoFormat } from './extractvideo';
+
+const VIDEO_CODECS = /^(avc|hvc|hev|dvh|vp0?[89]|av01)/i;
+const AUDIO_CODECS = /^(mp4a|opus|vorbis|ac-3|ec-3|flac)/i;
+// Codecs HLS only carries in fragmented MP4 segments
+const FMP4_CODECS = /^(hvc|hev|dvh|vp0?9|av01|opus|flac)/i;
+
+/** Segment container of an HLS media playlist: MPEG-TS or fragmented MP4 */
+export type HlsContainer = 'ts' | 'mp4';
+
+/**
+ * Parse a DASH MPD into one format per Representation of the first Period
+ * @param xml MPD document
+ * @param manifestUrl URL the MPD was fetched from, relative BaseURLs resolve against it
+ * @returns VideoFormat[]; representations served as single files get their own URL,
+ * segmented ones point at the MPD with protocol 'dash'
+ */
+export function parseDashManifest(xml: string, manifestUrl: string): VideoFormat[] {
+    const $ = cheerio.load(xml, { xml: true });
+    const mpd = $('MPD').first();
+    const period = mpd.children('Period').first();
+    if (period.length === 0) return [];
+
+    const baseOf = (element: cheerio.Cheerio<any>, base: string) => {
+        const text = element.children('BaseURL').first().text().trim();
+        return text ? new URL(text, base).toString() : base;
+    };
+    const isSegmented = (element: cheerio.Cheerio<any>) =>
+        element.children('SegmentTemplate, SegmentList').length > 0;
+
+    const periodBase = baseOf(period, baseOf(mpd, manifestUrl));
+    const formats: VideoFormat[] = [];
+
+    period.children('AdaptationSet').each((_, setElement) => {
+        const set = $(setElement);
+        const setBase = baseOf(set, periodBase);
+
+        set.children('Representation').each((_, representationElement) => {
+            const representation = $(representationElement);
+            const attr = (name: string) => representation.attr(name) ?? set.attr(name);
+
+            const mimeType = attr('mimeType') || '';
+            const codecs = attr('codecs');
+            const codecList = codecs?.split(',').map(codec => codec.trim()) ?? [];
+            const hasVideo = mimeType.startsWith('video/') && (codecList.length === 0 || codecList.some(codec => VIDEO_CODECS.test(codec)));
+            const hasAudio = mimeType.startsWith('audio/') || codecList.some(codec => AUDIO_CODECS.test(codec));
+            const segmented = isSegmented(representation) || isSegmented(set) || isSegmented(period);
+            const segmentBase = representation.children('SegmentBase').first().length > 0
+                ? representation.children('SegmentBase').first()
+                : set.children('SegmentBase').first();
+
+            const id = representation.attr('id');
+            const height = toNumber(attr('height'));
+            const fps = toFrameRate(attr('frameRate'));
+            const bitrate = toNumber(attr('bandwidth'));
+            formats.push({
+                quality: hasVideo ? videoQuality(height, fps) : audioQuality(bitrate),
+                format: mimeType.split('/')[1] || 'unknown',
+                mimeType,
+                type: hasVideo ? 'video' : 'audio',
+                size: 0,
+                url: segmented ? manifestUrl : baseOf(representation, setBase),
+                hasVideo,
+                hasAudio,
+                itag: id && /^\d+$/.test(id) ? parseInt(id, 10) : undefined,
+                width: hasVideo ? toNumber(attr('width')) : undefined,
+                height: hasVideo ? height : undefined,
+                fps: hasVideo ? fps : undefined,
+                bitrate,
+                codecs,
+                audioSampleRate: hasAudio ? toNumber(attr('audioSamplingRate')) : undefined,
+                audioChannels: hasAudio
+                    ? toNumber(representation.children('AudioChannelConfiguration').attr('value') ??
+                        set.children('AudioChannelConfiguration').attr('value'))
+                    : undefined,
+                protocol: segmented ? 'dash' : undefined,
+                initRange: segmented ? undefined : segmentBase.children('Initialization').attr('range'),
+                indexRange: segmented ? undefined : segmentBase.attr('indexRange')
+            });
+        });
+    });
+
+    return formats;
+}
+
+/**
+ * Parse an HLS master playlist into one format per variant stream and
+ * audio rendition
+ * @param text Playlist contents
+ * @param playlistUrl URL the playlist was fetched from, relative URIs resolve against it
+ * @param container Segment container when the platform is known to use one. A master
+ * playlist doesn't show the segments, so otherwise it is 'mp4' for variants whose codecs
+ * need fragmented MP4 and 'ts' for the rest; audio renditions follow their variants
+ * @returns VideoFormat[] with protocol 'hls' whose URLs are media playlists
+ */
+export function parseHlsPlaylist(text: string, playlistUrl: string, container?: HlsContainer): VideoFormat[] {
+    const formats: VideoFormat[] = [];
+    const lines = text.split(/\r?\n/).map(line => line.trim());
+    const variantContainer = (attributes: Record<string, string>): HlsContainer =>
+        container ?? (attributes.CODECS?.split(',').some(codec => FMP4_CODECS.test(codec.trim())) ? 'mp4' : 'ts');
+
+    // Renditions are usually listed before the variants that reference their group
+    const groupContainers = new Map<string, HlsContainer>();
+    for (const line of lines) {
+        if (!line.startsWith('#EXT-X-STREAM-INF:')) continue;
+        const attributes = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+        if (attributes.AUDIO && groupContainers.get(attributes.AUDIO) !== 'mp4') {
+            groupContainers.set(attributes.AUDIO, variantContainer(attributes));
+        }
+    }
+
+    lines.forEach((line, index) => {
+        if (line.startsWith('#EXT-X-STREAM-INF:')) {
+            const attributes = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+            const uri = lines.slice(index + 1).find(next => next && !next.startsWith('#'));
+            if (!uri) return;
+
+            const codecList = attributes.CODECS?.split(',').map(codec => codec.trim()) ?? [];
+            const [width, height] = (attributes.RESOLUTION ?? '').split('x').map(toNumber);
+            // Without CODECS a variant with a resolution is assumed to be muxed
+            const hasVideo = codecList.length > 0 ? codecList.some(codec => VIDEO_CODECS.test(codec)) : height !== undefined;
+            const hasAudio = codecList.length > 0 ? codecList.some(codec => AUDIO_CODECS.test(codec)) : true;
+            const fps = toNumber(attributes['FRAME-RATE']);
+            const bitrate = toNumber(attributes['AVERAGE-BANDWIDTH'] ?? attributes.BANDWIDTH);
+            formats.push(hlsFormat(new URL(uri, playlistUrl).toString(), variantContainer(attributes), {
+                quality: hasVideo ? videoQuality(height, fps) : audioQuality(bitrate),
+                type: hasVideo ? 'video' : 'audio',
+                hasVideo,
+                hasAudio,
+                width: hasVideo ? width : undefined,
+                height: hasVideo ? height : undefined,
+                fps: hasVideo ? fps : undefined,
+                bitrate,
+                codecs: attributes.CODECS,
+                hdr: hasVideo && attributes['VIDEO-RANGE'] ? attributes['VIDEO-RANGE'] !== 'SDR' : undefined
+            }));
+        } else if (line.startsWith('#EXT-X-MEDIA:')) {
+            const attributes = parseAttributes(line.slice('#EXT-X-MEDIA:'.length));
+            // Renditions without a URI are muxed into the variant streams
+            if (attributes.TYPE !== 'AUDIO' || !attributes.URI) return;
+
+            const renditionContainer = container ?? groupContainers.get(attributes['GROUP-ID'] ?? '') ?? 'ts';
+            formats.push(hlsFormat(new URL(attributes.URI, playlistUrl).toString(), renditionContainer, {
+                quality: attributes.NAME || attributes.LANGUAGE || 'audio',
+                type: 'audio',
+                hasVideo: false,
+                hasAudio: true,
+                audioChannels: toNumber(attributes.CHANNELS?.split('/')[0])
+            }));
+        }
+    });
+
+    return formats;
+}
+
+/**
+ * Build a static DASH MPD from single-file video-only and audio-only formats,
+ * so DASH players can switch between the separate streams themselves
+ * @param formats Formats to include, those without byte ranges are skipped
+ * @param duration Duration in seconds
+ * @returns MPD document
+ */
+export function buildDashManifest(formats: VideoFormat[], duration: number): string {
+    // Players only switch between representations of one codec family
+    const sets = new Map<string, VideoFormat[]>();
+    const representable = formats
+        .filter(isDashRepresentable)
+        .sort((a, b) => Number(b.hasVideo) - Number(a.hasVideo));
+    for (const format of representable) {
+        const key = `${format.mimeType} ${format.codecs?.split('.')[0] ?? ''}`;
+        sets.set(key, [...(sets.get(key) ?? []), format]);
+    }
+
+    const adaptationSets = [...sets.values()].map((representations, index) => {
+        const { mimeType, type } = representations[0];
+        const lines = representations.map(format => {
+            const attributes: Record<string, string | number | undefined> = {
+                id: format.itag ?? `${index}-${representations.indexOf(format)}`,
+                codecs: format.codecs,
+                bandwidth: format.bitrate ?? 0,
+                width: format.width,
+                height: format.height,
+                frameRate: format.fps,
+                audioSamplingRate: format.audioSampleRate
+            };
+            return [
+                `      <Representation ${formatAttributes(attributes)}>`,
+                ...(format.audioChannels
+                    ? [`        <AudioChannelConfiguration schemeIdUri="urn:mpeg:dash:23003:3:audio_channel_configuration:2011" value="${format.audioChannels}"/>`]
+                    : []),
+                `        <BaseURL>${escapeXml(format.url)}</BaseURL>`,
+                `        <SegmentBase indexRange="${format.indexRange}">`,
+                `          <Initialization range="${format.initRange}"/>`,
+                '        </SegmentBase>',
+                '      </Representation>'
+            ].join('\n');
+        });
+        return [
+            `    <AdaptationSet id="${index}" contentType="${type}" mimeType="${mimeType}" subsegmentAlignment="true" subsegmentStartsWithSAP="1">`,
+            ...lines,
+            '    </AdaptationSet>'
+        ].join('\n');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" profiles="urn:mpeg:dash:profile:isoff-on-demand:2011" type="static" mediaPresentationDuration="PT${duration}S" minBufferTime="PT1.5S">`,
+        '  <Period>',
+        ...adaptationSets,
+        '  </Period>',
+        '</MPD>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * True for formats a generated MPD can reference: one media type in a single
+ * file whose initialization segment and index are known
+ */
+export function isDashRepresentable(format: VideoFormat): boolean {
+    return !format.protocol && format.hasVideo !== format.hasAudio &&
+        Boolean(format.initRange && format.indexRange && format.url);
+}
+
+function hlsFormat(url: string, container: HlsContainer, details: Omit<VideoFormat, 'format' | 'mimeType' | 'size' | 'url'>): VideoFormat {
+    return {
+        ...details,
+        format: container,
+        mimeType: `${details.hasVideo ? 'video' : 'audio'}/${container === 'mp4' ? 'mp4' : 'mp2t'}`,
+        size: 0,
+        url,
+        // YouTube's media playlists carry an itag path segment
+        itag: toNumber(url.match(/\/itag\/(\d+)/)?.[1]),
+        protocol: 'hls'
+    };
+}
+
+// 'BANDWIDTH=1280000,CODECS="avc1.4d401f,mp4a.40.2"' -> { BANDWIDTH, CODECS }
+function parseAttributes(list: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of list.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+        attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+    }
+    return attributes;
+}
+
+function videoQuality(height?: number, fps?: number): string {
+    if (!height) return 'unknown';
+    return fps && fps > 30 ? `${height}p${Math.round(fps)}` : `${height}p`;
+}
+
+function audioQuality(bitrate?: number): string {
+    return bitrate ? `${Math.round(bitrate / 1000)}kbps` : 'audio';
+}
+
+function toNumber(value: string | undefined): number | undefined {
+    const number = value ? Number(value) : NaN;
+    return Number.isFinite(number) ? number : undefined;
+}
+
+// DASH frame rates may be fractions such as '30000/1001'
+function toFrameRate(value: string | undefined): number | undefined {
+    const [numerator, denominator] = (value ?? '').split('/').map(Number);
+    if (!numerator) return undefined;
+    return denominator ? Math.round(numerator / denominator * 1000) / 1000 : numerator;
+}
+
+function formatAttributes(attributes: Record<string, string | number | undefined>): string {
+    return Object.entries(attributes)
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+        .join(' ');
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
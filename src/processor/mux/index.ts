@@ -0,0 +1,32 @@
+// ./src/processor/mux/index.ts
+import { muxMp4 } from './mp4';
+import { muxWebm } from './webm';
+import { NoMatchingFormatError } from '../errors';
+
+export { muxMp4, muxWebm };
+
+// Containers the muxers can produce, keyed by VideoFormat.format
+const MUXERS: Record<string, (video: Uint8Array, audio: Uint8Array) => Uint8Array<ArrayBuffer>> = {
+    mp4: muxMp4,
+    webm: muxWebm
+};
+
+export function canMux(container: string): boolean {
+    return container in MUXERS;
+}
+
+/**
+ * Combine separate video and audio streams into a single file
+ * @param container Output container ('mp4' or 'webm'), both inputs must use it
+ * @param video Video-only stream
+ * @param audio Audio-only stream
+ * @returns Uint8Array with the merged file
+ * @throws MuxError when a stream isn't laid out the way the muxer expects
+ */
+export function muxStreams(container: string, video: Uint8Array, audio: Uint8Array): Uint8Array<ArrayBuffer> {
+    const muxer = MUXERS[container];
+    if (!muxer) {
+        throw new NoMatchingFormatError(`Merging is not supported for '${container}'`);
+    }
+    return muxer(video, audio);
+}
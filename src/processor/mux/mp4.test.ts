@@ -0,0 +1,144 @@
+// ./src/processor/mux/mp4.test.ts
+import { describe, expect, test } from 'bun:test';
+import { muxMp4 } from './mp4';
+import { MuxError } from '../errors';
+
+// Minimal fragmented MP4 writer, just enough boxes for the muxer
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+    let offset = 0;
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.byteLength;
+    }
+    return output;
+}
+
+function uint32(...values: number[]): Uint8Array {
+    const output = new Uint8Array(values.length * 4);
+    values.forEach((value, index) => new DataView(output.buffer).setUint32(index * 4, value));
+    return output;
+}
+
+function box(type: string, ...payloads: Uint8Array[]): Uint8Array {
+    const payload = concat(...payloads);
+    return concat(uint32(8 + payload.byteLength), new TextEncoder().encode(type), payload);
+}
+
+// Version 0 full boxes, the fields are given as 32 bit values
+function fullBox(type: string, fields: number[], padding = 0): Uint8Array {
+    return box(type, uint32(0, ...fields), new Uint8Array(padding));
+}
+
+interface TrackOptions {
+    movieTimescale: number;
+    movieDuration: number;
+    mediaTimescale: number;
+    /** Decode times of the fragments, each mdat holds its label */
+    fragments: [number, string][];
+}
+
+function track({ movieTimescale, movieDuration, mediaTimescale, fragments }: TrackOptions): Uint8Array {
+    // mvhd: times, timescale, duration, then rate to pre_defined (76 bytes) and next_track_ID
+    const mvhd = box('mvhd', uint32(0, 0, 0, movieTimescale, movieDuration), new Uint8Array(76), uint32(2));
+    // tkhd: times, track_ID, reserved, duration, then the remaining 60 bytes
+    const tkhd = box('tkhd', uint32(0, 0, 0, 1, 0, movieDuration), new Uint8Array(60));
+    const mdhd = fullBox('mdhd', [0, 0, mediaTimescale, 0], 4);
+    const trex = fullBox('trex', [1, 1, 0, 0, 0]);
+
+    return concat(
+        box('ftyp', new TextEncoder().encode('iso6\0\0\0\0iso6')),
+        box('moov', mvhd, box('trak', tkhd, box('mdia', mdhd)), box('mvex', trex)),
+        ...fragments.flatMap(([time, label], index) => [
+            box('moof',
+                fullBox('mfhd', [index + 1]),
+                box('traf', fullBox('tfhd', [1]), fullBox('tfdt', [time]))
+            ),
+            box('mdat', new TextEncoder().encode(label))
+        ])
+    );
+}
+
+interface ParsedBox {
+    type: string;
+    /** Payload after the size/type header */
+    data: Uint8Array;
+}
+
+function parseBoxes(buffer: Uint8Array): ParsedBox[] {
+    const boxes: ParsedBox[] = [];
+    for (let offset = 0; offset < buffer.byteLength;) {
+        const size = new DataView(buffer.buffer, buffer.byteOffset + offset).getUint32(0);
+        boxes.push({
+            type: new TextDecoder().decode(buffer.subarray(offset + 4, offset + 8)),
+            data: buffer.subarray(offset + 8, offset + size)
+        });
+        offset += size;
+    }
+    return boxes;
+}
+
+function child(parent: ParsedBox, ...path: string[]): ParsedBox {
+    return path.reduce((current, type) => parseBoxes(current.data).find(box => box.type === type)!, parent);
+}
+
+function readUint32(box: ParsedBox, offset: number): number {
+    return new DataView(box.data.buffer, box.data.byteOffset).getUint32(offset);
+}
+
+const video = track({
+    movieTimescale: 1000,
+    movieDuration: 2000,
+    mediaTimescale: 90000,
+    fragments: [[0, 'v0'], [90000, 'v1']]
+});
+const audio = track({
+    movieTimescale: 600,
+    movieDuration: 1800,
+    mediaTimescale: 48000,
+    fragments: [[0, 'a0'], [24000, 'a1']]
+});
+
+describe('muxMp4', () => {
+    const output = parseBoxes(muxMp4(video, audio));
+    const moov = output.find(box => box.type === 'moov')!;
+
+    test('writes the header followed by the fragments', () => {
+        expect(output.map(box => box.type)).toEqual(['ftyp', 'moov', 'moof', 'mdat', 'moof', 'mdat', 'moof', 'mdat', 'moof', 'mdat']);
+    });
+
+    test('combines both tracks in the movie box', () => {
+        const traks = parseBoxes(moov.data).filter(box => box.type === 'trak');
+        expect(traks.map(trak => readUint32(child(trak, 'tkhd'), 12))).toEqual([1, 2]);
+
+        const trex = parseBoxes(child(moov, 'mvex').data).map(box => readUint32(box, 4));
+        expect(trex).toEqual([1, 2]);
+
+        const mvhd = child(moov, 'mvhd');
+        expect(readUint32(mvhd, mvhd.data.byteLength - 4)).toBe(3);
+    });
+
+    test('converts durations to the video movie timescale', () => {
+        const traks = parseBoxes(moov.data).filter(box => box.type === 'trak');
+        // 1800 at 600 per second is 3 s, 3000 at 1000 per second
+        expect(traks.map(trak => readUint32(child(trak, 'tkhd'), 20))).toEqual([2000, 3000]);
+        expect(readUint32(child(moov, 'mvhd'), 16)).toBe(3000);
+    });
+
+    test('interleaves fragments by decode time and renumbers them', () => {
+        const moofs = output.filter(box => box.type === 'moof');
+        expect(moofs.map(moof => readUint32(child(moof, 'mfhd'), 4))).toEqual([1, 2, 3, 4]);
+        expect(moofs.map(moof => readUint32(child(moof, 'traf', 'tfhd'), 4))).toEqual([1, 2, 2, 1]);
+
+        const labels = output.filter(box => box.type === 'mdat').map(box => new TextDecoder().decode(box.data));
+        expect(labels).toEqual(['v0', 'a0', 'a1', 'v1']);
+    });
+
+    test('rejects streams it can not merge', () => {
+        const unfragmented = track({ movieTimescale: 1000, movieDuration: 2000, mediaTimescale: 90000, fragments: [] });
+        expect(() => muxMp4(unfragmented, audio)).toThrow('Video stream is not a fragmented MP4');
+        expect(() => muxMp4(video, box('ftyp'))).toThrow('Audio stream has no moov box');
+        expect(() => muxMp4(video, concat(uint32(64), new TextEncoder().encode('moov')))).toThrow(MuxError);
+    });
+});
@@ -0,0 +1,328 @@
+// ./src/processor/mux/mp4.ts
+import { MuxError } from '../errors';
+
+interface Box {
+    type: string;
+    start: number;
+    end: number;
+    /** Offset of the box payload, after the size/type header */
+    contentStart: number;
+}
+
+interface Fragment {
+    /** Decode time of the first sample in seconds, used for interleaving */
+    time: number;
+    trackId: number;
+    /** moof box followed by its mdat box(es) */
+    boxes: Box[];
+    source: Uint8Array;
+}
+
+interface TrackInput {
+    buffer: Uint8Array;
+    ftyp?: Box;
+    moov: Box;
+    trak: Box;
+    trex?: Box;
+    movieTimescale: number;
+    mediaTimescale: number;
+    fragments: Fragment[];
+}
+
+// Full box headers carry a 1 byte version and 3 bytes of flags
+const FULL_BOX_HEADER = 4;
+
+function readBoxes(buffer: Uint8Array, start: number, end: number): Box[] {
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    const boxes: Box[] = [];
+    let offset = start;
+
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        const type = String.fromCharCode(...buffer.subarray(offset + 4, offset + 8));
+        let headerSize = 8;
+
+        if (size === 1) {
+            size = Number(view.getBigUint64(offset + 8));
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < headerSize || offset + size > end) {
+            throw new MuxError(`Malformed MP4 box '${type}' at offset ${offset}`);
+        }
+
+        boxes.push({ type, start: offset, end: offset + size, contentStart: offset + headerSize });
+        offset += size;
+    }
+
+    return boxes;
+}
+
+function findBox(buffer: Uint8Array, parent: Box, type: string): Box | undefined {
+    return readBoxes(buffer, parent.contentStart, parent.end).find(box => box.type === type);
+}
+
+function findPath(buffer: Uint8Array, parent: Box, path: string[]): Box | undefined {
+    let current: Box | undefined = parent;
+    for (const type of path) {
+        current = current && findBox(buffer, current, type);
+    }
+    return current;
+}
+
+function view(buffer: Uint8Array): DataView {
+    return new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+}
+
+function readTimescale(buffer: Uint8Array, box: Box): number {
+    // mvhd and mdhd share the layout: times are 32 bit in version 0, 64 bit in version 1
+    const version = buffer[box.contentStart];
+    const offset = box.contentStart + FULL_BOX_HEADER + (version === 1 ? 16 : 8);
+    return view(buffer).getUint32(offset);
+}
+
+function parseInput(buffer: Uint8Array, label: string): TrackInput {
+    const topLevel = readBoxes(buffer, 0, buffer.byteLength);
+    const moov = topLevel.find(box => box.type === 'moov');
+    if (!moov) {
+        throw new MuxError(`${label} stream has no moov box`);
+    }
+
+    const traks = readBoxes(buffer, moov.contentStart, moov.end).filter(box => box.type === 'trak');
+    if (traks.length !== 1) {
+        throw new MuxError(`${label} stream must contain exactly one track, found ${traks.length}`);
+    }
+
+    const mvhd = findBox(buffer, moov, 'mvhd');
+    const mdhd = findPath(buffer, traks[0], ['mdia', 'mdhd']);
+    if (!mvhd || !mdhd) {
+        throw new MuxError(`${label} stream is missing timing information`);
+    }
+
+    const input: TrackInput = {
+        buffer,
+        ftyp: topLevel.find(box => box.type === 'ftyp'),
+        moov,
+        trak: traks[0],
+        trex: findPath(buffer, moov, ['mvex', 'trex']),
+        movieTimescale: readTimescale(buffer, mvhd),
+        mediaTimescale: readTimescale(buffer, mdhd),
+        fragments: []
+    };
+
+    // Group every moof with the media data that follows it
+    let current: Fragment | undefined;
+    for (const box of topLevel) {
+        if (box.type === 'moof') {
+            current = {
+                time: readFragmentTime(buffer, box) / input.mediaTimescale,
+                trackId: 0,
+                boxes: [box],
+                source: buffer
+            };
+            input.fragments.push(current);
+        } else if (box.type === 'mdat' && current) {
+            current.boxes.push(box);
+        }
+    }
+
+    if (input.fragments.length === 0) {
+        throw new MuxError(`${label} stream is not a fragmented MP4`);
+    }
+
+    return input;
+}
+
+function readFragmentTime(buffer: Uint8Array, moof: Box): number {
+    const tfdt = findPath(buffer, moof, ['traf', 'tfdt']);
+    if (!tfdt) return 0;
+
+    const version = buffer[tfdt.contentStart];
+    const offset = tfdt.contentStart + FULL_BOX_HEADER;
+    return version === 1
+        ? Number(view(buffer).getBigUint64(offset))
+        : view(buffer).getUint32(offset);
+}
+
+function copy(buffer: Uint8Array, box: Box): Uint8Array {
+    return buffer.slice(box.start, box.end);
+}
+
+function makeBox(type: string, ...payloads: Uint8Array[]): Uint8Array {
+    const size = 8 + payloads.reduce((total, payload) => total + payload.byteLength, 0);
+    const output = new Uint8Array(size);
+    view(output).setUint32(0, size);
+    for (let i = 0; i < 4; i++) {
+        output[4 + i] = type.charCodeAt(i);
+    }
+
+    let offset = 8;
+    for (const payload of payloads) {
+        output.set(payload, offset);
+        offset += payload.byteLength;
+    }
+    return output;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const output = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+    let offset = 0;
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.byteLength;
+    }
+    return output;
+}
+
+// Scale a 32 or 64 bit duration field in place
+function scaleDuration(target: DataView, offset: number, is64: boolean, ratio: number): number {
+    if (is64) {
+        const scaled = Math.round(Number(target.getBigUint64(offset)) * ratio);
+        target.setBigUint64(offset, BigInt(scaled));
+        return scaled;
+    }
+    const value = target.getUint32(offset);
+    // All ones means "unknown" and must stay that way
+    if (value === 0xffffffff) return 0;
+    const scaled = Math.min(Math.round(value * ratio), 0xfffffffe);
+    target.setUint32(offset, scaled);
+    return scaled;
+}
+
+/**
+ * Copy a trak box, assigning a new track ID and converting durations from
+ * the source movie timescale to the output movie timescale
+ * @returns the copied box and its duration in the output movie timescale
+ */
+function rewriteTrak(input: TrackInput, trackId: number, movieTimescale: number): { trak: Uint8Array; duration: number } {
+    const trak = copy(input.buffer, input.trak);
+    const trakBox: Box = { type: 'trak', start: 0, end: trak.byteLength, contentStart: input.trak.contentStart - input.trak.start };
+    const target = view(trak);
+    const ratio = movieTimescale / input.movieTimescale;
+
+    const tkhd = findBox(trak, trakBox, 'tkhd');
+    if (!tkhd) {
+        throw new MuxError('Track is missing its tkhd box');
+    }
+    const tkhdVersion = trak[tkhd.contentStart];
+    const idOffset = tkhd.contentStart + FULL_BOX_HEADER + (tkhdVersion === 1 ? 16 : 8);
+    target.setUint32(idOffset, trackId);
+    const duration = scaleDuration(target, idOffset + 8, tkhdVersion === 1, ratio);
+
+    // Edit list segment durations are expressed in the movie timescale too
+    const elst = findPath(trak, trakBox, ['edts', 'elst']);
+    if (elst) {
+        const version = trak[elst.contentStart];
+        const count = target.getUint32(elst.contentStart + FULL_BOX_HEADER);
+        const entrySize = version === 1 ? 20 : 12;
+        for (let i = 0; i < count; i++) {
+            const offset = elst.contentStart + FULL_BOX_HEADER + 4 + i * entrySize;
+            scaleDuration(target, offset, version === 1, ratio);
+        }
+    }
+
+    return { trak, duration };
+}
+
+function rewriteTrex(input: TrackInput, trackId: number): Uint8Array {
+    let trex: Uint8Array;
+    if (input.trex) {
+        trex = copy(input.buffer, input.trex);
+    } else {
+        // Minimal trex with no sample defaults
+        trex = makeBox('trex', new Uint8Array(FULL_BOX_HEADER + 20));
+        view(trex).setUint32(8 + FULL_BOX_HEADER + 4, 1);
+    }
+    view(trex).setUint32(8 + FULL_BOX_HEADER, trackId);
+    return trex;
+}
+
+function buildMoov(video: TrackInput, audio: TrackInput): Uint8Array {
+    const mvhdBox = findBox(video.buffer, video.moov, 'mvhd')!;
+    const mvhd = copy(video.buffer, mvhdBox);
+    const movieTimescale = video.movieTimescale;
+
+    const videoTrak = rewriteTrak(video, 1, movieTimescale);
+    const audioTrak = rewriteTrak(audio, 2, movieTimescale);
+
+    const mvhdView = view(mvhd);
+    const version = mvhd[8];
+    // Duration follows the timescale, next_track_ID closes the box
+    const durationOffset = 8 + FULL_BOX_HEADER + (version === 1 ? 20 : 12);
+    const duration = Math.max(videoTrak.duration, audioTrak.duration);
+    if (version === 1) {
+        mvhdView.setBigUint64(durationOffset, BigInt(duration));
+    } else {
+        mvhdView.setUint32(durationOffset, duration);
+    }
+    mvhdView.setUint32(mvhd.byteLength - 4, 3);
+
+    const mvex = makeBox('mvex', rewriteTrex(video, 1), rewriteTrex(audio, 2));
+    return makeBox('moov', mvhd, videoTrak.trak, audioTrak.trak, mvex);
+}
+
+/**
+ * Copy a fragment, renumbering its sequence and track IDs. Sample data
+ * offsets are relative to the moof, so they stay valid as long as the mdat
+ * follows it; explicit base data offsets are shifted to the new position.
+ */
+function rewriteFragment(fragment: Fragment, sequence: number, outputOffset: number): Uint8Array {
+    const moofBox = fragment.boxes[0];
+    const output = concat(fragment.boxes.map(box => copy(fragment.source, box)));
+    const moof: Box = { type: 'moof', start: 0, end: moofBox.end - moofBox.start, contentStart: moofBox.contentStart - moofBox.start };
+    const target = view(output);
+
+    for (const child of readBoxes(output, moof.contentStart, moof.end)) {
+        if (child.type === 'mfhd') {
+            target.setUint32(child.contentStart + FULL_BOX_HEADER, sequence);
+        } else if (child.type === 'traf') {
+            const tfhd = findBox(output, child, 'tfhd');
+            if (!tfhd) continue;
+
+            const flags = target.getUint32(tfhd.contentStart) & 0xffffff;
+            target.setUint32(tfhd.contentStart + FULL_BOX_HEADER, fragment.trackId);
+            if (flags & 0x1) {
+                const offset = tfhd.contentStart + FULL_BOX_HEADER + 4;
+                const base = target.getBigUint64(offset);
+                target.setBigUint64(offset, base + BigInt(outputOffset - moofBox.start));
+            }
+        }
+    }
+
+    return output;
+}
+
+/**
+ * Mux a video-only and an audio-only fragmented MP4 (as served for DASH
+ * adaptive formats) into a single fragmented MP4 with both tracks
+ * @param videoBuffer Fragmented MP4 containing the video track
+ * @param audioBuffer Fragmented MP4 containing the audio track
+ * @returns Uint8Array with the merged file
+ */
+export function muxMp4(videoBuffer: Uint8Array, audioBuffer: Uint8Array): Uint8Array<ArrayBuffer> {
+    const video = parseInput(videoBuffer, 'Video');
+    const audio = parseInput(audioBuffer, 'Audio');
+
+    video.fragments.forEach(fragment => fragment.trackId = 1);
+    audio.fragments.forEach(fragment => fragment.trackId = 2);
+
+    const header = [
+        video.ftyp ? copy(video.buffer, video.ftyp) : makeBox('ftyp', new TextEncoder().encode('isom\0\0\x02\0isomiso6mp41')),
+        buildMoov(video, audio)
+    ];
+
+    // Interleave fragments by decode time so players can start before the end
+    const fragments = [...video.fragments, ...audio.fragments]
+        .sort((a, b) => a.time - b.time || a.trackId - b.trackId);
+
+    const parts = [...header];
+    let offset = header.reduce((total, part) => total + part.byteLength, 0);
+    fragments.forEach((fragment, index) => {
+        const part = rewriteFragment(fragment, index + 1, offset);
+        parts.push(part);
+        offset += part.byteLength;
+    });
+
+    return concat(parts);
+}
@@ -0,0 +1,176 @@
+// ./src/processor/mux/webm.test.ts
+import { describe, expect, test } from 'bun:test';
+import { muxWebm } from './webm';
+import { MuxError } from '../errors';
+
+// Minimal WebM writer, just enough elements for the muxer
+
+const ID = {
+    EBML: 0x1a45dfa3,
+    DocType: 0x4282,
+    Segment: 0x18538067,
+    Info: 0x1549a966,
+    TimecodeScale: 0x2ad7b1,
+    Duration: 0x4489,
+    Tracks: 0x1654ae6b,
+    TrackEntry: 0xae,
+    TrackNumber: 0xd7,
+    TrackUID: 0x73c5,
+    CodecID: 0x86,
+    Cluster: 0x1f43b675,
+    Timecode: 0xe7,
+    SimpleBlock: 0xa3
+};
+
+// Marks an element whose size is unknown, ended by the next segment child
+const UNKNOWN_SIZE = new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+    let offset = 0;
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.byteLength;
+    }
+    return output;
+}
+
+function bytes(value: number, length: number): Uint8Array {
+    const output = new Uint8Array(length);
+    for (let i = length - 1; i >= 0; i--, value = Math.floor(value / 256)) {
+        output[i] = value & 0xff;
+    }
+    return output;
+}
+
+function encodeId(id: number): Uint8Array {
+    return bytes(id, Math.ceil(id.toString(16).length / 2));
+}
+
+function element(id: number, ...payloads: Uint8Array[]): Uint8Array {
+    const payload = concat(...payloads);
+    // Eight byte sizes keep the writer simple
+    const size = bytes(payload.byteLength, 8);
+    size[0] = 0x01;
+    return concat(encodeId(id), size, payload);
+}
+
+function unknownSized(id: number, ...payloads: Uint8Array[]): Uint8Array {
+    return concat(encodeId(id), UNKNOWN_SIZE, ...payloads);
+}
+
+function float64(value: number): Uint8Array {
+    const output = new Uint8Array(8);
+    new DataView(output.buffer).setFloat64(0, value);
+    return output;
+}
+
+// SimpleBlock: track number, 16 bit relative timecode, flags, frame data
+function simpleBlock(trackNumber: number, frame: string): Uint8Array {
+    return element(ID.SimpleBlock, new Uint8Array([0x80 | trackNumber, 0, 0, 0x80]), new TextEncoder().encode(frame));
+}
+
+interface TrackOptions {
+    codec: string;
+    duration: number;
+    timecodeScale?: number;
+    /** Cluster timecodes, each cluster holds one frame with its label */
+    clusters: [number, string][];
+    /** Write the clusters with unknown sizes, as live encoders do */
+    unknownSizes?: boolean;
+}
+
+function track({ codec, duration, timecodeScale = 1000000, clusters, unknownSizes = false }: TrackOptions): Uint8Array {
+    return concat(
+        element(ID.EBML, element(ID.DocType, new TextEncoder().encode('webm'))),
+        element(ID.Segment,
+            element(ID.Info, element(ID.TimecodeScale, bytes(timecodeScale, 4)), element(ID.Duration, float64(duration))),
+            element(ID.Tracks, element(ID.TrackEntry,
+                element(ID.TrackNumber, bytes(1, 1)),
+                element(ID.TrackUID, bytes(0x1234, 2)),
+                element(ID.CodecID, new TextEncoder().encode(codec))
+            )),
+            ...clusters.map(([timecode, frame]) => (unknownSizes ? unknownSized : element)(
+                ID.Cluster,
+                element(ID.Timecode, bytes(timecode, 2)),
+                simpleBlock(1, frame)
+            ))
+        )
+    );
+}
+
+interface ParsedElement {
+    id: number;
+    data: Uint8Array;
+}
+
+function readVint(buffer: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number } {
+    let length = 1;
+    while (!(buffer[offset] & (0x80 >> (length - 1)))) length++;
+    let value = keepMarker ? buffer[offset] : buffer[offset] & (0xff >> length);
+    for (let i = 1; i < length; i++) {
+        value = value * 256 + buffer[offset + i];
+    }
+    return { value, length };
+}
+
+// The muxer writes every element with a known size
+function parseElements(buffer: Uint8Array): ParsedElement[] {
+    const elements: ParsedElement[] = [];
+    for (let offset = 0; offset < buffer.byteLength;) {
+        const id = readVint(buffer, offset, true);
+        const size = readVint(buffer, offset + id.length, false);
+        const start = offset + id.length + size.length;
+        elements.push({ id: id.value, data: buffer.subarray(start, start + size.value) });
+        offset = start + size.value;
+    }
+    return elements;
+}
+
+function children(parent: ParsedElement, id: number): ParsedElement[] {
+    return parseElements(parent.data).filter(element => element.id === id);
+}
+
+function readUint(element: ParsedElement): number {
+    return element.data.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+const video = track({ codec: 'V_VP9', duration: 2000, clusters: [[0, 'v0'], [1000, 'v1']] });
+const audio = track({ codec: 'A_OPUS', duration: 3000, clusters: [[0, 'a0'], [500, 'a1']], unknownSizes: true });
+
+describe('muxWebm', () => {
+    const output = parseElements(muxWebm(video, audio));
+    const [segment] = output.filter(element => element.id === ID.Segment);
+
+    test('copies the EBML header and writes one segment', () => {
+        expect(output.map(element => element.id)).toEqual([ID.EBML, ID.Segment]);
+        expect(parseElements(segment.data).map(element => element.id)).toEqual([
+            ID.Info, ID.Tracks, ID.Cluster, ID.Cluster, ID.Cluster, ID.Cluster
+        ]);
+    });
+
+    test('numbers the tracks and keeps the longer duration', () => {
+        const entries = children(children(segment, ID.Tracks)[0], ID.TrackEntry);
+        expect(entries.map(entry => readUint(children(entry, ID.TrackNumber)[0]))).toEqual([1, 2]);
+        expect(entries.map(entry => readUint(children(entry, ID.TrackUID)[0]))).toEqual([1, 2]);
+        expect(entries.map(entry => new TextDecoder().decode(children(entry, ID.CodecID)[0].data))).toEqual(['V_VP9', 'A_OPUS']);
+
+        const [duration] = children(children(segment, ID.Info)[0], ID.Duration);
+        expect(new DataView(duration.data.buffer, duration.data.byteOffset).getFloat64(0)).toBe(3000);
+    });
+
+    test('interleaves clusters by timecode and rewrites block track numbers', () => {
+        const blocks = children(segment, ID.Cluster).map(cluster => children(cluster, ID.SimpleBlock)[0].data);
+        expect(blocks.map(block => block[0] & 0x7f)).toEqual([1, 2, 2, 1]);
+        expect(blocks.map(block => new TextDecoder().decode(block.subarray(4)))).toEqual(['v0', 'a0', 'a1', 'v1']);
+    });
+
+    test('rejects streams it can not merge', () => {
+        expect(() => muxWebm(new TextEncoder().encode('\x1aEnot webm'), audio)).toThrow(MuxError);
+        expect(() => muxWebm(video, element(ID.Tracks))).toThrow('Audio stream is not a WebM file');
+        expect(() => muxWebm(video, track({ codec: 'A_OPUS', duration: 3000, clusters: [] })))
+            .toThrow('Audio stream contains no clusters');
+        expect(() => muxWebm(video, track({ codec: 'A_OPUS', duration: 3000, timecodeScale: 1000, clusters: [[0, 'a0']] })))
+            .toThrow('Video and audio streams use different timecode scales');
+    });
+});
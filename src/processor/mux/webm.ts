@@ -0,0 +1,317 @@
+// ./src/processor/mux/webm.ts
+import { MuxError } from '../errors';
+
+interface Element {
+    id: number;
+    start: number;
+    /** Offset of the element payload, after the ID and size */
+    dataStart: number;
+    end: number;
+}
+
+interface Cluster {
+    timecode: number;
+    trackNumber: number;
+    element: Element;
+    source: Uint8Array;
+}
+
+interface TrackInput {
+    buffer: Uint8Array;
+    ebmlHeader: Element;
+    info: Element;
+    trackEntry: Element;
+    timecodeScale: number;
+    clusters: Cluster[];
+}
+
+const ID = {
+    EBML: 0x1a45dfa3,
+    Segment: 0x18538067,
+    Info: 0x1549a966,
+    TimecodeScale: 0x2ad7b1,
+    Duration: 0x4489,
+    Tracks: 0x1654ae6b,
+    TrackEntry: 0xae,
+    TrackNumber: 0xd7,
+    TrackUID: 0x73c5,
+    Cluster: 0x1f43b675,
+    Timecode: 0xe7,
+    SimpleBlock: 0xa3,
+    BlockGroup: 0xa0,
+    Block: 0xa1
+};
+
+// Elements that end an unknown-sized cluster
+const SEGMENT_CHILDREN = new Set([
+    0x114d9b74, // SeekHead
+    ID.Info,
+    ID.Tracks,
+    ID.Cluster,
+    0x1c53bb6b, // Cues
+    0x1941a469, // Attachments
+    0x1043a770, // Chapters
+    0x1254c367  // Tags
+]);
+
+const DEFAULT_TIMECODE_SCALE = 1000000;
+
+function readVint(buffer: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } {
+    const first = buffer[offset];
+    let length = 1;
+    while (length <= 8 && !(first & (0x80 >> (length - 1)))) {
+        length++;
+    }
+    if (length > 8) {
+        throw new MuxError(`Invalid EBML variable size integer at offset ${offset}`);
+    }
+
+    let value = keepMarker ? first : first & (0xff >> length);
+    let allOnes = value === (0xff >> length);
+    for (let i = 1; i < length; i++) {
+        value = value * 256 + buffer[offset + i];
+        allOnes = allOnes && buffer[offset + i] === 0xff;
+    }
+
+    return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readElement(buffer: Uint8Array, offset: number, limit: number): Element {
+    const id = readVint(buffer, offset, true);
+    const size = readVint(buffer, offset + id.length, false);
+    const dataStart = offset + id.length + size.length;
+
+    let end = size.unknown ? limit : dataStart + size.value;
+    if (size.unknown && id.value === ID.Cluster) {
+        end = findUnknownClusterEnd(buffer, dataStart, limit);
+    }
+    if (end > limit) {
+        throw new MuxError(`EBML element 0x${id.value.toString(16)} overruns its parent`);
+    }
+
+    return { id: id.value, start: offset, dataStart, end };
+}
+
+function findUnknownClusterEnd(buffer: Uint8Array, offset: number, limit: number): number {
+    while (offset < limit) {
+        const child = readElement(buffer, offset, limit);
+        if (SEGMENT_CHILDREN.has(child.id)) {
+            return offset;
+        }
+        offset = child.end;
+    }
+    return limit;
+}
+
+function readChildren(buffer: Uint8Array, parent: Element): Element[] {
+    const children: Element[] = [];
+    let offset = parent.dataStart;
+    while (offset < parent.end) {
+        const child = readElement(buffer, offset, parent.end);
+        children.push(child);
+        offset = child.end;
+    }
+    return children;
+}
+
+function readUint(buffer: Uint8Array, element: Element): number {
+    let value = 0;
+    for (let i = element.dataStart; i < element.end; i++) {
+        value = value * 256 + buffer[i];
+    }
+    return value;
+}
+
+function readFloat(buffer: Uint8Array, element: Element): number {
+    const view = new DataView(buffer.buffer, buffer.byteOffset + element.dataStart, element.end - element.dataStart);
+    return element.end - element.dataStart === 4 ? view.getFloat32(0) : view.getFloat64(0);
+}
+
+function encodeId(id: number): Uint8Array {
+    const bytes: number[] = [];
+    for (let value = id; value > 0; value = Math.floor(value / 256)) {
+        bytes.unshift(value & 0xff);
+    }
+    return new Uint8Array(bytes);
+}
+
+function encodeSize(size: number): Uint8Array {
+    let length = 1;
+    // The all-ones value of each width is reserved for "unknown size"
+    while (length < 8 && size >= 2 ** (7 * length) - 1) {
+        length++;
+    }
+
+    const bytes = new Uint8Array(length);
+    let value = size;
+    for (let i = length - 1; i >= 0; i--) {
+        bytes[i] = value & 0xff;
+        value = Math.floor(value / 256);
+    }
+    bytes[0] |= 0x80 >> (length - 1);
+    return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const output = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+    let offset = 0;
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.byteLength;
+    }
+    return output;
+}
+
+function makeElement(id: number, ...payloads: Uint8Array[]): Uint8Array {
+    const data = concat(payloads);
+    return concat([encodeId(id), encodeSize(data.byteLength), data]);
+}
+
+function copy(buffer: Uint8Array, element: Element): Uint8Array {
+    return buffer.slice(element.start, element.end);
+}
+
+function parseInput(buffer: Uint8Array, label: string): TrackInput {
+    const ebmlHeader = readElement(buffer, 0, buffer.byteLength);
+    if (ebmlHeader.id !== ID.EBML) {
+        throw new MuxError(`${label} stream is not a WebM file`);
+    }
+
+    const segment = readElement(buffer, ebmlHeader.end, buffer.byteLength);
+    if (segment.id !== ID.Segment) {
+        throw new MuxError(`${label} stream has no Segment element`);
+    }
+
+    let info: Element | undefined;
+    let tracks: Element | undefined;
+    const clusterElements: Element[] = [];
+    for (const child of readChildren(buffer, segment)) {
+        if (child.id === ID.Info) info = child;
+        else if (child.id === ID.Tracks) tracks = child;
+        else if (child.id === ID.Cluster) clusterElements.push(child);
+    }
+
+    if (!info || !tracks) {
+        throw new MuxError(`${label} stream is missing Info or Tracks`);
+    }
+
+    const entries = readChildren(buffer, tracks).filter(child => child.id === ID.TrackEntry);
+    if (entries.length !== 1) {
+        throw new MuxError(`${label} stream must contain exactly one track, found ${entries.length}`);
+    }
+
+    const timecodeScaleElement = readChildren(buffer, info).find(child => child.id === ID.TimecodeScale);
+    const clusters = clusterElements.map(element => {
+        const timecode = readChildren(buffer, element).find(child => child.id === ID.Timecode);
+        return {
+            timecode: timecode ? readUint(buffer, timecode) : 0,
+            trackNumber: 0,
+            element,
+            source: buffer
+        };
+    });
+
+    if (clusters.length === 0) {
+        throw new MuxError(`${label} stream contains no clusters`);
+    }
+
+    return {
+        buffer,
+        ebmlHeader,
+        info,
+        trackEntry: entries[0],
+        timecodeScale: timecodeScaleElement ? readUint(buffer, timecodeScaleElement) : DEFAULT_TIMECODE_SCALE,
+        clusters
+    };
+}
+
+function rewriteTrackEntry(input: TrackInput, trackNumber: number, trackUid: number): Uint8Array {
+    const children = readChildren(input.buffer, input.trackEntry).map(child => {
+        if (child.id === ID.TrackNumber) {
+            return makeElement(ID.TrackNumber, new Uint8Array([trackNumber]));
+        }
+        if (child.id === ID.TrackUID) {
+            return makeElement(ID.TrackUID, new Uint8Array([trackUid]));
+        }
+        return copy(input.buffer, child);
+    });
+    return makeElement(ID.TrackEntry, ...children);
+}
+
+function rewriteInfo(video: TrackInput, audio: TrackInput): Uint8Array {
+    const audioDuration = readChildren(audio.buffer, audio.info).find(child => child.id === ID.Duration);
+    const children = readChildren(video.buffer, video.info).map(child => {
+        if (child.id === ID.Duration && audioDuration) {
+            // Both inputs share the timecode scale, keep the longer duration
+            const duration = Math.max(readFloat(video.buffer, child), readFloat(audio.buffer, audioDuration));
+            const data = new Uint8Array(8);
+            new DataView(data.buffer).setFloat64(0, duration);
+            return makeElement(ID.Duration, data);
+        }
+        return copy(video.buffer, child);
+    });
+    return makeElement(ID.Info, ...children);
+}
+
+// Blocks start with the track number as a variable size integer
+function rewriteBlock(buffer: Uint8Array, element: Element, trackNumber: number): Uint8Array {
+    const track = readVint(buffer, element.dataStart, false);
+    return makeElement(
+        element.id,
+        encodeSize(trackNumber),
+        buffer.subarray(element.dataStart + track.length, element.end)
+    );
+}
+
+function rewriteCluster(cluster: Cluster): Uint8Array {
+    const { source, trackNumber } = cluster;
+    const children = readChildren(source, cluster.element).map(child => {
+        if (child.id === ID.SimpleBlock) {
+            return rewriteBlock(source, child, trackNumber);
+        }
+        if (child.id === ID.BlockGroup) {
+            const groupChildren = readChildren(source, child).map(groupChild =>
+                groupChild.id === ID.Block
+                    ? rewriteBlock(source, groupChild, trackNumber)
+                    : copy(source, groupChild)
+            );
+            return makeElement(ID.BlockGroup, ...groupChildren);
+        }
+        return copy(source, child);
+    });
+    return makeElement(ID.Cluster, ...children);
+}
+
+/**
+ * Mux a video-only and an audio-only WebM (as served for DASH adaptive
+ * formats) into a single WebM with both tracks. Seek heads and cues are
+ * dropped since their offsets no longer apply.
+ * @param videoBuffer WebM containing the video track
+ * @param audioBuffer WebM containing the audio track
+ * @returns Uint8Array with the merged file
+ */
+export function muxWebm(videoBuffer: Uint8Array, audioBuffer: Uint8Array): Uint8Array<ArrayBuffer> {
+    const video = parseInput(videoBuffer, 'Video');
+    const audio = parseInput(audioBuffer, 'Audio');
+
+    if (video.timecodeScale !== audio.timecodeScale) {
+        throw new MuxError('Video and audio streams use different timecode scales');
+    }
+
+    video.clusters.forEach(cluster => cluster.trackNumber = 1);
+    audio.clusters.forEach(cluster => cluster.trackNumber = 2);
+
+    // Interleave clusters by timecode so playback can start before the end
+    const clusters = [...video.clusters, ...audio.clusters]
+        .sort((a, b) => a.timecode - b.timecode || a.trackNumber - b.trackNumber)
+        .map(rewriteCluster);
+
+    const segment = makeElement(
+        ID.Segment,
+        rewriteInfo(video, audio),
+        makeElement(ID.Tracks, rewriteTrackEntry(video, 1, 1), rewriteTrackEntry(audio, 2, 2)),
+        ...clusters
+    );
+
+    return concat([copy(video.buffer, video.ebmlHeader), segment]);
+}
@@ -4,13 +4,44 @@
 import {
     extractYouTubeVideo,
     listAvailableFormats as listYouTubeFormats,
-    getFormatsByType as getYouTubeFormatsByType
+    getFormatsByType as getYouTubeFormatsByType,
+    youtubeExtractor
 } from './youtube';
+import { extractYouTubePlaylist } from './youtubeplaylist';
 
 import {
     extractTikTokVideo,
-    listAvailableFormats as listTikTokFormats
+    listAvailableFormats as listTikTokFormats,
+    tiktokExtractor
 } from './tiktok';
+import { extractTikTokFeed } from './tiktokfeed';
+
+import {
+    extractVimeoVideo,
+    listAvailableFormats as listVimeoFormats,
+    vimeoExtractor
+} from './vimeo';
+
+import {
+    extractTwitterVideo,
+    listAvailableFormats as listTwitterFormats,
+    twitterExtractor
+} from './twitter';
+
+import {
+    extractRedditVideo,
+    listAvailableFormats as listRedditFormats,
+    redditExtractor
+} from './reddit';
+
+import {
+    registerExtractor,
+    unregisterExtractor,
+    getExtractor,
+    getExtractors,
+    findExtractor
+} from './registry';
+import { config } from '../../config';
 
 // Re-export platform-specific functions
 export {
@@ -18,31 +49,49 @@ export {
     extractYouTubeVideo,
     listYouTubeFormats,
     getYouTubeFormatsByType,
-    
+    extractYouTubePlaylist,
+
     // TikTok exports
     extractTikTokVideo,
-    listTikTokFormats
-};
+    listTikTokFormats,
+    extractTikTokFeed,
+
+    // Vimeo exports
+    extractVimeoVideo,
+    listVimeoFormats,
+
+    // Twitter exports
+    extractTwitterVideo,
+    listTwitterFormats,
 
-// Export platform detection utilities
-export const isPlatform = {
-    youtube: (url: string): boolean => {
-        return url.includes('youtube.com') || url.includes('youtu.be');
-    },
-    tiktok: (url: string): boolean => {
-        const tiktokDomains = ['tiktok.com', 'vm.tiktok.com', 'vt.tiktok.com'];
-        try {
-            const urlObj = new URL(url);
-            return tiktokDomains.some(domain => urlObj.hostname.endsWith(domain));
-        } catch {
-            return false;
-        }
-    }
+    // Reddit exports
+    extractRedditVideo,
+    listRedditFormats,
+
+    // Registry exports
+    registerExtractor,
+    unregisterExtractor,
+    getExtractor,
+    getExtractors,
+    findExtractor
 };
 
+export type { NormalizedUrl, PlatformExtractor, PlaylistOptions, SubtitleOptions, UrlKind } from './registry';
+
+// Register built-in extractors. Add or remove entries here to change
+// which platforms the API supports, platforms can also be switched off
+// through config.platforms.<name>.enabled.
+[
+    youtubeExtractor,
+    tiktokExtractor,
+    vimeoExtractor,
+    twitterExtractor,
+    redditExtractor
+]
+    .filter(extractor => config.platforms[extractor.name as keyof typeof config.platforms]?.enabled !== false)
+    .forEach(registerExtractor);
+
 // Export a utility function to identify the platform
-export function detectPlatform(url: string): 'youtube' | 'tiktok' | 'unknown' {
-    if (isPlatform.youtube(url)) return 'youtube';
-    if (isPlatform.tiktok(url)) return 'tiktok';
-    return 'unknown';
-}
\ No newline at end of file
+export function detectPlatform(url: string): string {
+    return findExtractor(url)?.name ?? 'unknown';
+}
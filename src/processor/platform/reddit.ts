@@ -0,0 +1,374 @@
+// ./src/processor/platform/reddit.ts
+import type { Thumbnail, VideoFormat, VideoMetadata } from '../extractvideo';
+import type { NormalizedUrl, PlatformExtractor } from './registry';
+import { httpRequest } from '../http';
+import { parseDashManifest, parseHlsPlaylist } from '../manifest';
+import { sortThumbnails } from '../thumbnails';
+import {
+    ExtractionError,
+    InvalidUrlError,
+    VideoPrivateError,
+    VideoUnavailableError,
+    upstreamHttpError,
+    wrapError
+} from '../errors';
+
+interface RedditVideoInfo {
+    title: string;
+    description: string;
+    duration: number;
+    thumbnail: string;
+    thumbnails: Thumbnail[];
+    formats: VideoFormat[];
+}
+
+/** A video or GIF of a post, galleries hold several */
+interface RedditMedia {
+    dashUrl?: string;
+    hlsUrl?: string;
+    /** Video-only MP4 of the highest rendition, used when the DASH playlist can't be read */
+    fallbackUrl?: string;
+    /** MP4 conversion of a GIF */
+    mp4Url?: string;
+    width?: number;
+    height?: number;
+    duration?: number;
+}
+
+// /r/{sub}/comments/ID, /user/{name}/comments/ID, /comments/ID and /gallery/ID
+const POST_PATH = /^\/(?:(?:r|u|user)\/[^/]+\/)?(?:comments|gallery)\/([a-z0-9]+)(?:\/|$)/i;
+
+// Share links of the apps, /r/{sub}/s/CODE
+const SHARE_PATH = /^\/r\/[^/]+\/s\/[^/]+/;
+
+// Redirects followed before giving up on a short link
+const MAX_SHORT_LINK_HOPS = 5;
+
+export async function extractRedditVideo(url: string): Promise<VideoMetadata> {
+    try {
+        const videoInfo = await fetchRedditInfo(await resolveRedditPostId(url));
+
+        if (videoInfo.formats.length === 0) {
+            throw new ExtractionError('No video formats found');
+        }
+
+        return {
+            title: videoInfo.title,
+            description: videoInfo.description,
+            duration: videoInfo.duration,
+            thumbnail: videoInfo.thumbnail,
+            thumbnails: videoInfo.thumbnails,
+            formats: videoInfo.formats
+        };
+    } catch (error) {
+        throw wrapError(error, 'Failed to extract Reddit video');
+    }
+}
+
+// Post links carry the post ID, v.redd.it and share links have to be followed first
+async function resolveRedditPostId(url: string): Promise<string> {
+    let id = findPostId(url);
+    if (!id && isRedditShortLink(url)) {
+        id = findPostId(await resolveRedditShortLink(url));
+    }
+    if (!id) {
+        throw new InvalidUrlError('Invalid Reddit post URL');
+    }
+    return id;
+}
+
+function findPostId(url: string): string | undefined {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return undefined;
+    }
+
+    const host = parsed.hostname.toLowerCase();
+    if (host === 'redd.it') {
+        return parsed.pathname.match(/^\/([a-z0-9]+)\/?$/i)?.[1]?.toLowerCase();
+    }
+    if (!/(^|\.)reddit\.com$/.test(host)) return undefined;
+    return parsed.pathname.match(POST_PATH)?.[1]?.toLowerCase();
+}
+
+/**
+ * Map a post link to its canonical form. redd.it links carry the post ID and
+ * are normalized offline, v.redd.it and share links need resolveRedditShortLink.
+ * @param url Reddit post URL
+ * @returns NormalizedUrl, undefined for short links and unknown URLs
+ */
+export function normalizeRedditUrl(url: string): NormalizedUrl | undefined {
+    const id = findPostId(url);
+    if (!id) return undefined;
+
+    return { platform: 'reddit', kind: 'video', id, canonicalUrl: `https://www.reddit.com/comments/${id}/` };
+}
+
+export function isRedditShortLink(url: string): boolean {
+    try {
+        const { hostname, pathname } = new URL(url);
+        const host = hostname.toLowerCase();
+        return (host === 'v.redd.it' && /^\/[a-z0-9]+/i.test(pathname)) ||
+            (/(^|\.)reddit\.com$/.test(host) && SHARE_PATH.test(pathname));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Follow a v.redd.it or share link to the post it belongs to. Only the
+ * redirects are read, the post itself isn't fetched.
+ * @param url Short link
+ * @returns Promise<string> with the first URL that isn't a short link
+ */
+export async function resolveRedditShortLink(url: string): Promise<string> {
+    // v.redd.it/ID/DASH_720.mp4 and friends redirect from the bare ID only
+    const start = url.replace(/^(https?:\/\/v\.redd\.it\/[a-z0-9]+).*$/i, '$1');
+    let current = start;
+    for (let hop = 0; hop < MAX_SHORT_LINK_HOPS && isRedditShortLink(current); hop++) {
+        const response = await httpRequest('reddit', current, {
+            method: 'HEAD',
+            redirect: 'manual'
+        });
+        const location = response.headers.get('location');
+        if (!location) break;
+        current = new URL(location, current).toString();
+    }
+    if (current === start) {
+        throw new InvalidUrlError('Reddit short link did not redirect');
+    }
+    return current;
+}
+
+async function fetchRedditInfo(id: string): Promise<RedditVideoInfo> {
+    try {
+        const post = await fetchPost(id);
+        // Crossposts keep their media on the original post
+        const source = post.crosspost_parent_list?.[0] ?? post;
+
+        const items = listMedia(source);
+        if (items.length === 0) {
+            throw new VideoUnavailableError(source.removed_by_category
+                ? 'Reddit post was removed'
+                : 'Post has no videos or GIFs');
+        }
+
+        const formats: VideoFormat[] = [];
+        for (const [index, item] of items.entries()) {
+            const itemFormats = await extractMediaFormats(item);
+            formats.push(...itemFormats.map(format => ({ ...format, mediaIndex: index + 1 })));
+        }
+        formats.sort(sortFormats);
+
+        const thumbnails = listThumbnails(source);
+        return {
+            title: post.title || 'Untitled',
+            description: post.selftext || '',
+            duration: Math.round(items[0].duration || 0),
+            thumbnail: thumbnails[0]?.url ?? '',
+            thumbnails,
+            formats
+        };
+    } catch (error) {
+        throw wrapError(error, 'Failed to fetch Reddit post info');
+    }
+}
+
+async function fetchPost(id: string): Promise<any> {
+    // raw_json keeps URLs free of HTML entities
+    const response = await httpRequest('reddit', `https://www.reddit.com/comments/${id}/.json?raw_json=1`);
+    if (!response.ok) {
+        const reason = await response.json().then((data: any) => data?.reason as string | undefined, () => undefined);
+        if (response.status === 403) {
+            throw new VideoPrivateError(reason ? `Subreddit is ${reason}` : 'Reddit post is private');
+        }
+        if (response.status === 404) {
+            throw new VideoUnavailableError(reason ? `Subreddit is ${reason}` : 'Reddit post not found');
+        }
+        throw upstreamHttpError(response.status, 'Failed to fetch Reddit post');
+    }
+
+    let data: any;
+    try {
+        data = await response.json();
+    } catch {
+        throw new ExtractionError('Failed to parse Reddit post response');
+    }
+    const post = data?.[0]?.data?.children?.[0]?.data;
+    if (!post) {
+        throw new VideoUnavailableError('Reddit post not found');
+    }
+    return post;
+}
+
+// Hosted videos, GIFs converted to video and the videos and animations of galleries
+function listMedia(post: any): RedditMedia[] {
+    const video = post.secure_media?.reddit_video ?? post.media?.reddit_video ?? post.preview?.reddit_video_preview;
+    if (video) {
+        return [fromRedditVideo(video)];
+    }
+
+    if (post.is_gallery) {
+        return (post.gallery_data?.items ?? [])
+            .map((item: any) => post.media_metadata?.[item.media_id])
+            .filter((metadata: any) => metadata?.status === 'valid')
+            .map(fromGalleryItem)
+            .filter((media: RedditMedia | undefined): media is RedditMedia => Boolean(media));
+    }
+
+    const gif = post.preview?.images?.[0]?.variants?.mp4?.source;
+    if (gif?.url) {
+        return [{ mp4Url: gif.url, width: gif.width, height: gif.height }];
+    }
+    return [];
+}
+
+function fromRedditVideo(video: any): RedditMedia {
+    return {
+        dashUrl: video.dash_url,
+        hlsUrl: video.hls_url,
+        fallbackUrl: video.fallback_url,
+        width: video.width,
+        height: video.height,
+        duration: video.duration
+    };
+}
+
+function fromGalleryItem(metadata: any): RedditMedia | undefined {
+    if (metadata.e === 'RedditVideo') {
+        return { dashUrl: metadata.dashUrl, hlsUrl: metadata.hlsUrl, width: metadata.x, height: metadata.y };
+    }
+    if (metadata.e === 'AnimatedImage' && metadata.s?.mp4) {
+        return { mp4Url: metadata.s.mp4, width: metadata.s.x, height: metadata.s.y };
+    }
+    return undefined;
+}
+
+/**
+ * List the formats of one video. Reddit serves video and audio as separate
+ * files described by a DASH playlist, the HLS streams carry both.
+ */
+async function extractMediaFormats(media: RedditMedia): Promise<VideoFormat[]> {
+    if (media.mp4Url) {
+        return [{
+            quality: media.height ? `${media.height}p` : 'unknown',
+            format: 'mp4',
+            mimeType: 'video/mp4',
+            type: 'video',
+            size: 0,
+            url: media.mp4Url,
+            hasVideo: true,
+            hasAudio: false,
+            width: media.width,
+            height: media.height
+        }];
+    }
+
+    const formats: VideoFormat[] = [];
+    const manifests: [string | undefined, (text: string, url: string) => VideoFormat[]][] = [
+        [media.dashUrl, parseDashManifest],
+        [media.hlsUrl, parseHlsPlaylist]
+    ];
+    for (const [url, parse] of manifests) {
+        if (!url) continue;
+        try {
+            const response = await httpRequest('reddit', url);
+            if (!response.ok) {
+                throw upstreamHttpError(response.status, 'Failed to fetch manifest');
+            }
+            // Representation IDs aren't YouTube itags
+            formats.push(...parse(await response.text(), url).map(({ itag, ...format }) => format));
+        } catch (error) {
+            console.error('Error extracting formats from Reddit manifest:', error);
+        }
+    }
+
+    if (!formats.some(format => !format.protocol) && media.fallbackUrl) {
+        formats.push({
+            quality: media.height ? `${media.height}p` : 'unknown',
+            format: 'mp4',
+            mimeType: 'video/mp4',
+            type: 'video',
+            size: 0,
+            url: media.fallbackUrl,
+            hasVideo: true,
+            hasAudio: false,
+            width: media.width,
+            height: media.height
+        });
+    }
+    return formats;
+}
+
+// Preview images of the post, the source and its downscaled resolutions
+function listThumbnails(post: any): Thumbnail[] {
+    const image = post.preview?.images?.[0];
+    const thumbnails: Thumbnail[] = [image?.source, ...(image?.resolutions ?? [])]
+        .filter((entry: any) => entry?.url)
+        .map((entry: any) => ({ url: entry.url, width: entry.width, height: entry.height }));
+
+    if (thumbnails.length === 0 && /^https?:\/\//.test(post.thumbnail ?? '')) {
+        thumbnails.push({ url: post.thumbnail, width: post.thumbnail_width, height: post.thumbnail_height });
+    }
+    return sortThumbnails(thumbnails);
+}
+
+export async function listAvailableFormats(url: string): Promise<VideoFormat[]> {
+    try {
+        const videoInfo = await fetchRedditInfo(await resolveRedditPostId(url));
+        return videoInfo.formats;
+    } catch (error) {
+        throw wrapError(error, 'Failed to list formats');
+    }
+}
+
+export function getSupportedQualities(): string[] {
+    return ['240p', '360p', '480p', '720p', '1080p', 'highest'];
+}
+
+export function getSupportedFormats(): string[] {
+    return ['mp4'];
+}
+
+export function isRedditUrl(url: string): boolean {
+    try {
+        const host = new URL(url).hostname.toLowerCase();
+        return /(^|\.)reddit\.com$/.test(host) || host === 'redd.it' || host === 'v.redd.it';
+    } catch {
+        return false;
+    }
+}
+
+// First video of the post first, then video before audio, highest resolution
+// with files before manifest streams, then bitrate
+function sortFormats(a: VideoFormat, b: VideoFormat): number {
+    return (a.mediaIndex || 0) - (b.mediaIndex || 0) ||
+        Number(b.hasVideo) - Number(a.hasVideo) ||
+        (b.height || 0) - (a.height || 0) ||
+        Number(Boolean(a.protocol)) - Number(Boolean(b.protocol)) ||
+        (b.bitrate || 0) - (a.bitrate || 0);
+}
+
+function getVideoId(url: string): string | undefined {
+    return findPostId(url);
+}
+
+export const redditExtractor: PlatformExtractor = {
+    name: 'reddit',
+    matches: isRedditUrl,
+    extract: (url) => extractRedditVideo(url),
+    listFormats: async (url, type) => {
+        const formats = await listAvailableFormats(url);
+        return type ? formats.filter(format => format.type === type) : formats;
+    },
+    getSupportedQualities,
+    getSupportedFormats,
+    sortFormats,
+    getVideoId,
+    normalizeUrl: normalizeRedditUrl,
+    isShortLink: isRedditShortLink,
+    resolveShortLink: resolveRedditShortLink,
+    cookieDomain: 'reddit.com'
+};
@@ -0,0 +1,92 @@
+// ./src/processor/platform/registry.ts
+import type { VideoExtractRequest, VideoFormat, VideoMetadata } from '../extractvideo';
+import type { PlaylistPage } from '../extractplaylist';
+import type { SubtitleDocument } from '../extractsubtitles';
+
+export interface PlaylistOptions {
+    /** Maximum number of entries to return */
+    limit: number;
+    /** Token from a previous page, as returned in PlaylistPage.continuation */
+    continuation?: string;
+}
+
+export interface SubtitleOptions {
+    /** Language code of the track, the platform's default track when absent */
+    language?: string;
+    /** true for automatic captions only, false for uploaded subtitles only, uploaded first when absent */
+    autoGenerated?: boolean;
+    /** Language code to machine translate the track to */
+    translateTo?: string;
+}
+
+export type UrlKind = 'video' | 'playlist' | 'channel' | 'profile' | 'hashtag';
+
+export interface NormalizedUrl {
+    platform: string;
+    kind: UrlKind;
+    /** Platform ID of the video, playlist, channel, profile or hashtag */
+    id: string;
+    /** Clean URL of the target, without tracking parameters, embeds or mobile hosts where avoidable */
+    canonicalUrl: string;
+}
+
+export interface PlatformExtractor {
+    /** Platform identifier reported by detectPlatform and /support */
+    name: string;
+    /** Returns true when the URL belongs to this platform */
+    matches(url: string): boolean;
+    extract(url: string, request: VideoExtractRequest): Promise<VideoMetadata>;
+    listFormats(url: string, type?: 'audio' | 'video'): Promise<VideoFormat[]>;
+    getSupportedQualities(): string[];
+    getSupportedFormats(): string[];
+    /** Comparator used when the 'highest' quality is requested */
+    sortFormats(a: VideoFormat, b: VideoFormat): number;
+    /** Headers the media CDN expects when fetching format URLs */
+    downloadHeaders?: Record<string, string>;
+    /** Domain client supplied cookies are scoped to */
+    cookieDomain?: string;
+    /** Canonical video ID used as cache key, undefined when it can't be derived offline */
+    getVideoId?(url: string): string | undefined;
+    /** Returns true when the URL is a playlist or channel rather than a single video */
+    matchesPlaylist?(url: string): boolean;
+    /** List one page of entries of a playlist or channel */
+    extractPlaylist?(url: string, options: PlaylistOptions): Promise<PlaylistPage>;
+    /** Map a URL to its canonical form offline, undefined for short links and unknown URLs */
+    normalizeUrl?(url: string): NormalizedUrl | undefined;
+    /** Returns true for short links that only resolve through a redirect */
+    isShortLink?(url: string): boolean;
+    /** Follow a short link to the URL it points at */
+    resolveShortLink?(url: string): Promise<string>;
+    /** Fetch the timed text of one subtitle track of a video */
+    fetchSubtitles?(url: string, options: SubtitleOptions): Promise<SubtitleDocument>;
+}
+
+const extractors = new Map<string, PlatformExtractor>();
+
+export function registerExtractor(extractor: PlatformExtractor): void {
+    if (extractors.has(extractor.name)) {
+        throw new Error(`Extractor '${extractor.name}' is already registered`);
+    }
+    extractors.set(extractor.name, extractor);
+}
+
+export function unregisterExtractor(name: string): boolean {
+    return extractors.delete(name);
+}
+
+export function getExtractor(name: string): PlatformExtractor | undefined {
+    return extractors.get(name);
+}
+
+export function getExtractors(): PlatformExtractor[] {
+    return [...extractors.values()];
+}
+
+/**
+ * Find the first registered extractor whose matcher accepts the URL
+ * @param url Media URL
+ * @returns PlatformExtractor or undefined when no platform matches
+ */
+export function findExtractor(url: string): PlatformExtractor | undefined {
+    return getExtractors().find(extractor => extractor.matches(url));
+}
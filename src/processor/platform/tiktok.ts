@@ -1,31 +1,38 @@
-import fetch from 'node-fetch';
 import * as cheerio from 'cheerio';
-import type { VideoMetadata } from '../extractvideo';
+import type { Thumbnail, VideoFormat, VideoMetadata } from '../extractvideo';
+import type { NormalizedUrl, PlatformExtractor } from './registry';
+import { httpRequest } from '../http';
+import { sortThumbnails } from '../thumbnails';
+import { config } from '../../config';
+import { extractTikTokFeed, isTikTokFeedUrl, parseTikTokFeedUrl } from './tiktokfeed';
+import {
+    ExtractionError,
+    InvalidUrlError,
+    VideoPrivateError,
+    VideoUnavailableError,
+    upstreamHttpError,
+    wrapError
+} from '../errors';
 
 interface TikTokVideoInfo {
     title: string;
     description: string;
     duration: number;
     thumbnail: string;
+    thumbnails: Thumbnail[];
     formats: VideoFormat[];
 }
 
-interface VideoFormat {
-    quality: string;
-    format: string;
-    size: number;
-    url: string;
-    mimeType: string;
-    type: 'audio' | 'video';
-}
-
 export async function extractTikTokVideo(url: string): Promise<VideoMetadata> {
+    if (isTikTokFeedUrl(url)) {
+        throw new InvalidUrlError('TikTok profile and hashtag URLs list several videos, use /playlist');
+    }
+
     try {
-        const cleanUrl = await sanitizeTikTokUrl(url);
-        const videoInfo = await fetchTikTokInfo(cleanUrl);
+        const videoInfo = await fetchTikTokInfo(await resolveTikTokVideoUrl(url));
         
         if (!videoInfo.formats || videoInfo.formats.length === 0) {
-            throw new Error('No video formats found');
+            throw new ExtractionError('No video formats found');
         }
         
         return {
@@ -33,58 +40,124 @@ export async function extractTikTokVideo(url: string): Promise<VideoMetadata> {
             description: videoInfo.description,
             duration: videoInfo.duration,
             thumbnail: videoInfo.thumbnail,
+            thumbnails: videoInfo.thumbnails,
             formats: videoInfo.formats
         };
     } catch (error) {
-        if (error instanceof Error) {
-            throw new Error(`Failed to extract TikTok video: ${error.message}`);
-        } else {
-            throw new Error('Failed to extract TikTok video: Unknown error');
+        throw wrapError(error, 'Failed to extract TikTok video');
+    }
+}
+
+// Resolve the page URL of a video, following short links when needed
+async function resolveTikTokVideoUrl(url: string): Promise<string> {
+    let normalized = normalizeTikTokUrl(url);
+    if (!normalized && isTikTokShortLink(url)) {
+        normalized = normalizeTikTokUrl(await resolveTikTokShortLink(url));
+    }
+    if (normalized?.kind !== 'video') {
+        throw new InvalidUrlError('Invalid TikTok video URL');
+    }
+    return normalized.canonicalUrl;
+}
+
+const VIDEO_PATH = /^\/@([^/]+)\/(?:video|photo)\/(\d+)/;
+
+// Paths of embeds and the mobile site that only carry the video ID
+const ID_PATHS = [
+    /^\/v\/(\d+)(?:\.html)?/,
+    /^\/embed(?:\/v2)?\/(\d+)/,
+    /^\/player\/v1\/(\d+)/
+];
+
+/**
+ * Map a TikTok link to its canonical form: video pages, embeds and mobile
+ * links, plus profile and hashtag URLs. Short links need resolveTikTokShortLink first.
+ * @param url TikTok URL
+ * @returns NormalizedUrl, undefined for short links and unknown URLs
+ */
+export function normalizeTikTokUrl(url: string): NormalizedUrl | undefined {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return undefined;
+    }
+    if (!/(^|\.)tiktok\.com$/.test(parsed.hostname.toLowerCase()) || isTikTokShortLink(url)) {
+        return undefined;
+    }
+
+    const video = parsed.pathname.match(VIDEO_PATH);
+    if (video) {
+        return {
+            platform: 'tiktok',
+            kind: 'video',
+            id: video[2],
+            canonicalUrl: `https://www.tiktok.com/@${video[1]}/video/${video[2]}`
+        };
+    }
+    for (const pattern of ID_PATHS) {
+        const id = parsed.pathname.match(pattern)?.[1];
+        if (id) {
+            // The mobile link redirects to the page of the video's author
+            return { platform: 'tiktok', kind: 'video', id, canonicalUrl: `https://m.tiktok.com/v/${id}.html` };
         }
     }
+
+    const feed = parseTikTokFeedUrl(url);
+    if (feed) {
+        return {
+            platform: 'tiktok',
+            kind: feed.kind === 'user' ? 'profile' : 'hashtag',
+            id: feed.name,
+            canonicalUrl: feed.url
+        };
+    }
+    return undefined;
 }
 
-async function sanitizeTikTokUrl(url: string): Promise<string> {
+/**
+ * Recognise share links (vm.tiktok.com, vt.tiktok.com, tiktok.com/t/...)
+ */
+export function isTikTokShortLink(url: string): boolean {
     try {
-        const response = await fetch(url, {
+        const { hostname, pathname } = new URL(url);
+        const host = hostname.toLowerCase();
+        return host === 'vm.tiktok.com' || host === 'vt.tiktok.com' ||
+            (/(^|\.)tiktok\.com$/.test(host) && /^\/t\/[^/]+/.test(pathname));
+    } catch {
+        return false;
+    }
+}
+
+// Redirects followed before giving up on a share link
+const MAX_SHORT_LINK_HOPS = 5;
+
+/**
+ * Follow a share link to the page it redirects to. Only the redirects are
+ * read, the page itself isn't fetched.
+ * @param url Short link
+ * @returns Promise<string> with the first URL that isn't a short link
+ */
+export async function resolveTikTokShortLink(url: string): Promise<string> {
+    let current = url;
+    for (let hop = 0; hop < MAX_SHORT_LINK_HOPS && isTikTokShortLink(current); hop++) {
+        const response = await httpRequest('tiktok', current, {
             method: 'HEAD',
-            redirect: 'follow',
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-            }
+            redirect: 'manual'
         });
-        
-        // Get the final URL after redirects
-        const finalUrl = response.url;
-        const urlObj = new URL(finalUrl);
-        
-        // Handle different TikTok URL formats
-        if (urlObj.hostname === 'vm.tiktok.com' || urlObj.hostname === 'vt.tiktok.com') {
-            return finalUrl;
-        }
-        
-        // For regular TikTok URLs, clean up unnecessary parameters
-        const allowedParams = ['id']; // Keep only essential parameters
-        const newSearch = new URLSearchParams();
-        const params = new URLSearchParams(urlObj.search);
-        
-        for (const [key, value] of params) {
-            if (allowedParams.includes(key)) {
-                newSearch.append(key, value);
-            }
-        }
-        
-        urlObj.search = newSearch.toString();
-        return urlObj.toString();
-    } catch (error) {
-        throw new Error('Invalid TikTok URL');
+        const location = response.headers.get('location');
+        if (!location) break;
+        current = new URL(location, current).toString();
     }
+    if (current === url) {
+        throw new InvalidUrlError('TikTok short link did not redirect');
+    }
+    return current;
 }
 
 async function fetchTikTokInfo(url: string): Promise<TikTokVideoInfo> {
     try {
         const headers = {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
             'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
             'Accept-Language': 'en-US,en;q=0.9',
             'Sec-Ch-Ua': '"Not_A Brand";v="8", "Chromium";v="120", "Google Chrome";v="120"',
@@ -94,18 +167,20 @@ async function fetchTikTokInfo(url: string): Promise<TikTokVideoInfo> {
         };
 
         // Fetch main page first
-        const response = await fetch(url, {
+        const response = await httpRequest('tiktok', url, {
             headers,
             redirect: 'follow'
         });
 
         if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
+            throw upstreamHttpError(response.status, 'Failed to fetch TikTok page');
         }
 
         const html = await response.text();
         const $ = cheerio.load(html);
 
+        checkVideoStatus($);
+
         // Extract video data using multiple methods
         const videoData = await extractVideoData($);
         let formats = await extractFormats($, videoData);
@@ -114,7 +189,7 @@ async function fetchTikTokInfo(url: string): Promise<TikTokVideoInfo> {
         if (formats.length === 0) {
             const embedUrl = await getEmbedUrl(url);
             if (embedUrl) {
-                const embedFormats = await extractFromEmbed(embedUrl);
+                const embedFormats = await extractFromEmbed(embedUrl, videoData);
                 formats = [...formats, ...embedFormats];
             }
         }
@@ -140,27 +215,55 @@ async function fetchTikTokInfo(url: string): Promise<TikTokVideoInfo> {
             return 0;
         });
 
+        const thumbnails = extractThumbnails($, videoData);
         return {
             title: extractTitle($, videoData),
             description: extractDescription($, videoData),
             duration: extractDuration($, videoData),
-            thumbnail: extractThumbnail($, videoData),
+            thumbnail: thumbnails[0]?.url ?? '',
+            thumbnails,
             formats
         };
-    } catch (error: any) {
-        throw new Error(`Failed to fetch TikTok info: ${error.message}`);
+    } catch (error) {
+        throw wrapError(error, 'Failed to fetch TikTok info');
+    }
+}
+
+// TikTok serves a regular 200 page for removed and private videos, the
+// real status is only in the rehydration data
+const TIKTOK_STATUS_PRIVATE = 10222;
+const TIKTOK_STATUS_NOT_FOUND = [10204, 10216];
+
+function checkVideoStatus($: cheerio.CheerioAPI): void {
+    const universalData = $('script#__UNIVERSAL_DATA_FOR_REHYDRATION__').html();
+    if (!universalData) return;
+
+    let detail: any;
+    try {
+        detail = JSON.parse(universalData)?.__DEFAULT_SCOPE__?.['webapp.video-detail'];
+    } catch (e) {
+        console.error('Failed to parse rehydration data:', e);
+        return;
+    }
+
+    const statusCode = detail?.statusCode;
+    if (statusCode === TIKTOK_STATUS_PRIVATE) {
+        throw new VideoPrivateError(detail.statusMsg || 'TikTok video is private');
+    }
+    if (TIKTOK_STATUS_NOT_FOUND.includes(statusCode)) {
+        throw new VideoUnavailableError(detail.statusMsg || 'TikTok video is unavailable');
     }
 }
 
 async function extractFromApi(url: string): Promise<VideoFormat[]> {
     try {
-        const videoId = url.split('/video/')[1]?.split('?')[0];
+        const videoId = getVideoId(url);
         if (!videoId) return [];
 
-        const apiUrl = `https://api16-normal-c-useast1a.tiktokv.com/aweme/v1/feed/?aweme_id=${videoId}`;
-        const response = await fetch(apiUrl, {
+        const apiUrl = `https://${config.platforms.tiktok.apiHost}/aweme/v1/feed/?aweme_id=${videoId}`;
+        const response = await httpRequest('tiktok', apiUrl, {
             headers: {
-                'User-Agent': 'TikTok 26.2.0 rv:262018 (iPhone; iOS 14.4.2; en_US) Cronet'
+                'User-Agent': config.platforms.tiktok.apiUserAgent
             }
         });
 
@@ -177,10 +280,11 @@ async function extractFromApi(url: string): Promise<VideoFormat[]> {
             formats.push({
                 quality: 'original (no watermark)',
                 format: 'mp4',
-                size: 0,
                 url: videoData.video.play_addr.url_list[0],
                 mimeType: 'video/mp4',
-                type: 'video'
+                type: 'video',
+                watermark: false,
+                ...describeApiStream(videoData.video, videoData.video.play_addr)
             });
         }
 
@@ -189,10 +293,11 @@ async function extractFromApi(url: string): Promise<VideoFormat[]> {
             formats.push({
                 quality: 'original (watermark)',
                 format: 'mp4',
-                size: 0,
                 url: videoData.video.download_addr.url_list[0],
                 mimeType: 'video/mp4',
-                type: 'video'
+                type: 'video',
+                watermark: true,
+                ...describeApiStream(videoData.video, videoData.video.download_addr)
             });
         }
 
@@ -203,6 +308,33 @@ async function extractFromApi(url: string): Promise<VideoFormat[]> {
     }
 }
 
+// TikTok posts are muxed MP4s. Resolution comes from the address itself or
+// the video, bitrate, frame rate and codec from the matching bit_rate gear.
+function describeApiStream(video: any, address: any): Pick<VideoFormat,
+    'size' | 'hasVideo' | 'hasAudio' | 'width' | 'height' | 'fps' | 'bitrate' | 'codecs'> {
+    const gear = video.bit_rate?.find((entry: any) => entry.play_addr?.uri && entry.play_addr.uri === address.uri);
+    return {
+        size: address.data_size || 0,
+        hasVideo: true,
+        hasAudio: true,
+        width: address.width || video.width || undefined,
+        height: address.height || video.height || undefined,
+        fps: gear?.FPS || undefined,
+        bitrate: gear?.bit_rate || undefined,
+        codecs: gear ? (gear.is_bytevc1 || gear.is_h265 ? 'hevc' : 'h264') : undefined
+    };
+}
+
+// Same details from the web page's video object
+function describeWebVideo(video: any): Pick<VideoFormat, 'width' | 'height' | 'bitrate' | 'codecs'> {
+    return {
+        width: video?.width || undefined,
+        height: video?.height || undefined,
+        bitrate: video?.bitrate || undefined,
+        codecs: video?.codecType || undefined
+    };
+}
+
 async function extractVideoData($: cheerio.CheerioAPI): Promise<any> {
     // Try multiple methods to extract video data
     let videoData = {};
@@ -243,11 +375,26 @@ async function extractVideoData($: cheerio.CheerioAPI): Promise<any> {
         }
     }
 
+    // Method 4: Rehydration data of current pages
+    if (Object.keys(videoData).length === 0) {
+        const universalData = $('script#__UNIVERSAL_DATA_FOR_REHYDRATION__').html();
+        if (universalData) {
+            try {
+                const parsed = JSON.parse(universalData);
+                videoData = parsed.__DEFAULT_SCOPE__?.['webapp.video-detail']?.itemInfo?.itemStruct || {};
+            } catch (e) {
+                console.error('Failed to parse rehydration data:', e);
+            }
+        }
+    }
+
     return videoData;
 }
 
 async function extractFormats($: cheerio.CheerioAPI, videoData: any): Promise<VideoFormat[]> {
     const formats: VideoFormat[] = [];
+    // Every method finds the same post, so the video object describes all of them
+    const details = describeWebVideo(videoData.video);
     
     // Method 1: Direct video element
     $('video[src]').each((_, elem) => {
@@ -259,7 +406,10 @@ async function extractFormats($: cheerio.CheerioAPI, videoData: any): Promise<Vi
                 size: 0,
                 url: src,
                 mimeType: 'video/mp4',
-                type: 'video'
+                type: 'video',
+                hasVideo: true,
+                hasAudio: true,
+                ...details
             });
         }
     });
@@ -275,7 +425,10 @@ async function extractFormats($: cheerio.CheerioAPI, videoData: any): Promise<Vi
             size: 0,
             url: videoUrl,
             mimeType: 'video/mp4',
-            type: 'video'
+            type: 'video',
+            hasVideo: true,
+            hasAudio: true,
+            ...details
         });
     }
 
@@ -294,7 +447,10 @@ async function extractFormats($: cheerio.CheerioAPI, videoData: any): Promise<Vi
             size: 0,
             url,
             mimeType: 'video/mp4',
-            type: 'video'
+            type: 'video',
+            hasVideo: true,
+            hasAudio: true,
+            ...details
         });
     });
 
@@ -303,7 +459,7 @@ async function extractFormats($: cheerio.CheerioAPI, videoData: any): Promise<Vi
 
 async function getEmbedUrl(url: string): Promise<string | null> {
     try {
-        const videoId = url.split('/video/')[1]?.split('?')[0];
+        const videoId = getVideoId(url);
         if (videoId) {
             return `https://www.tiktok.com/embed/v2/${videoId}`;
         }
@@ -313,11 +469,11 @@ async function getEmbedUrl(url: string): Promise<string | null> {
     return null;
 }
 
-async function extractFromEmbed(embedUrl: string): Promise<VideoFormat[]> {
+// The embed player doesn't describe its stream, the page's video object does
+async function extractFromEmbed(embedUrl: string, videoData: any): Promise<VideoFormat[]> {
     try {
-        const response = await fetch(embedUrl, {
+        const response = await httpRequest('tiktok', embedUrl, {
             headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
                 'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
             }
         });
@@ -337,7 +493,10 @@ async function extractFromEmbed(embedUrl: string): Promise<VideoFormat[]> {
                     size: 0,
                     url: src,
                     mimeType: 'video/mp4',
-                    type: 'video'
+                    type: 'video',
+                    hasVideo: true,
+                    hasAudio: true,
+                    ...describeWebVideo(videoData.video)
                 });
             }
         });
@@ -380,23 +539,28 @@ function extractDuration($: cheerio.CheerioAPI, videoData: any): number {
     return 0;
 }
 
-function extractThumbnail($: cheerio.CheerioAPI, videoData: any): string {
-    return (
-        videoData?.thumbnailUrl ||
-        $('meta[property="og:image"]').attr('content') ||
-        ''
-    );
+// Static covers first, the dynamic cover is an animated preview. Only the
+// original cover is known to have the video's dimensions.
+function extractThumbnails($: cheerio.CheerioAPI, videoData: any): Thumbnail[] {
+    const video = videoData?.video ?? {};
+    const thumbnailUrls = Array.isArray(videoData?.thumbnailUrl) ? videoData.thumbnailUrl : [videoData?.thumbnailUrl];
+    const candidates: Thumbnail[] = [
+        { url: video.originCover, width: video.width || undefined, height: video.height || undefined },
+        { url: video.cover },
+        ...thumbnailUrls.map((url: unknown) => ({ url })),
+        { url: $('meta[property="og:image"]').attr('content') },
+        { url: video.dynamicCover }
+    ].filter((thumbnail): thumbnail is Thumbnail => typeof thumbnail.url === 'string' && thumbnail.url.startsWith('http'));
+
+    return sortThumbnails(candidates);
 }
 
 export async function listAvailableFormats(url: string): Promise<VideoFormat[]> {
     try {
-        const videoInfo = await fetchTikTokInfo(url);
+        const videoInfo = await fetchTikTokInfo(await resolveTikTokVideoUrl(url));
         return videoInfo.formats;
     } catch (error) {
-        if (error instanceof Error) {
-            throw new Error(`Failed to list formats: ${error.message}`);
-        }
-        throw new Error('Failed to list formats: Unknown error');
+        throw wrapError(error, 'Failed to list formats');
     }
 }
 
@@ -406,4 +570,51 @@ export function getSupportedQualities(): string[] {
 
 export function getSupportedFormats(): string[] {
     return ['mp4'];
-}
\ No newline at end of file
+}
+
+export function isTikTokUrl(url: string): boolean {
+    const tiktokDomains = ['tiktok.com', 'vm.tiktok.com', 'vt.tiktok.com'];
+    try {
+        const urlObj = new URL(url);
+        return tiktokDomains.some(domain => urlObj.hostname.endsWith(domain));
+    } catch {
+        return false;
+    }
+}
+
+function sortFormats(a: VideoFormat, b: VideoFormat): number {
+    // Prioritize no-watermark versions
+    if (a.quality.includes('no watermark') && !b.quality.includes('no watermark')) return -1;
+    if (!a.quality.includes('no watermark') && b.quality.includes('no watermark')) return 1;
+    // Then prioritize by size if available
+    return (b.size || 0) - (a.size || 0);
+}
+
+// Short links (vm.tiktok.com) need a network round trip, so they aren't cached
+function getVideoId(url: string): string | undefined {
+    const normalized = normalizeTikTokUrl(url);
+    return normalized?.kind === 'video' ? normalized.id : undefined;
+}
+
+export const tiktokExtractor: PlatformExtractor = {
+    name: 'tiktok',
+    matches: isTikTokUrl,
+    extract: (url) => extractTikTokVideo(url),
+    listFormats: async (url, type) => {
+        const formats = await listAvailableFormats(url);
+        return type ? formats.filter(format => format.type === type) : formats;
+    },
+    getSupportedQualities,
+    getSupportedFormats,
+    sortFormats,
+    getVideoId,
+    normalizeUrl: normalizeTikTokUrl,
+    isShortLink: isTikTokShortLink,
+    resolveShortLink: resolveTikTokShortLink,
+    matchesPlaylist: isTikTokFeedUrl,
+    extractPlaylist: extractTikTokFeed,
+    cookieDomain: 'tiktok.com',
+    downloadHeaders: {
+        'Referer': 'https://www.tiktok.com/'
+    }
+};
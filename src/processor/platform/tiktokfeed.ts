@@ -0,0 +1,266 @@
+// ./src/processor/platform/tiktokfeed.ts
+import * as cheerio from 'cheerio';
+import type { PlaylistEntry, PlaylistPage } from '../extractplaylist';
+import type { PlaylistOptions } from './registry';
+import { httpRequest } from '../http';
+import { config } from '../../config';
+import {
+    ExtractionError,
+    InvalidRequestError,
+    InvalidUrlError,
+    VideoPrivateError,
+    VideoUnavailableError,
+    upstreamHttpError,
+    wrapError
+} from '../errors';
+
+type FeedTarget =
+    | { kind: 'user'; name: string; url: string }
+    | { kind: 'hashtag'; name: string; url: string };
+
+// Position in a feed, handed to clients as an opaque continuation token
+interface Cursor {
+    kind: 'user' | 'hashtag';
+    /** secUid for users, challenge ID for hashtags */
+    feedId: string;
+    title: string;
+    /** API cursor of the chunk to read */
+    cursor: string;
+    /** Entries of that chunk already returned */
+    skip: number;
+    /** Index given to the next entry */
+    index: number;
+}
+
+interface Chunk {
+    entries: PlaylistEntry[];
+    /** Cursor of the following chunk, absent on the last one */
+    next?: string;
+}
+
+// The app API returns at most this many posts per call
+const CHUNK_SIZE = 30;
+
+// Stop following cursors after this many chunks per request
+const MAX_CHUNKS = 20;
+
+const USER_PATH = /^\/@([^/]+)\/?$/;
+const TAG_PATH = /^\/tag\/([^/]+)\/?$/;
+
+/**
+ * Recognise profile (`/@user`) and hashtag (`/tag/name`) URLs
+ */
+export function isTikTokFeedUrl(url: string): boolean {
+    return parseTikTokFeedUrl(url) !== undefined;
+}
+
+/**
+ * Parse a profile or hashtag URL into its target and the page listing it
+ * @param url Any tiktok.com URL
+ * @returns FeedTarget, undefined for other URLs
+ */
+export function parseTikTokFeedUrl(url: string): FeedTarget | undefined {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return undefined;
+    }
+    if (!/(^|\.)tiktok\.com$/.test(parsed.hostname)) return undefined;
+
+    const user = parsed.pathname.match(USER_PATH);
+    if (user) {
+        const name = decodeURIComponent(user[1]);
+        return { kind: 'user', name, url: `https://www.tiktok.com/@${encodeURIComponent(name)}` };
+    }
+
+    const tag = parsed.pathname.match(TAG_PATH);
+    if (tag) {
+        const name = decodeURIComponent(tag[1]);
+        return { kind: 'hashtag', name, url: `https://www.tiktok.com/tag/${encodeURIComponent(name)}` };
+    }
+
+    return undefined;
+}
+
+/**
+ * List one page of a profile or hashtag feed. The profile or tag page gives
+ * the feed ID, posts then come from the app API in chunks until `limit`
+ * entries are collected.
+ * @param url Profile or hashtag URL
+ * @param options Page size and continuation from the previous page
+ * @returns Promise<PlaylistPage>
+ */
+export async function extractTikTokFeed(url: string, options: PlaylistOptions): Promise<PlaylistPage> {
+    const target = parseTikTokFeedUrl(url);
+    if (!target) {
+        throw new InvalidUrlError('Invalid TikTok profile or hashtag URL');
+    }
+
+    try {
+        const state = options.continuation
+            ? decodeCursor(options.continuation, target.kind)
+            : await resolveFeed(target);
+
+        const entries: PlaylistEntry[] = [];
+        let apiCursor = state.cursor;
+        let skip = state.skip;
+        let index = state.index;
+        let continuation: string | undefined;
+
+        for (let chunks = 0; chunks < MAX_CHUNKS; chunks++) {
+            const chunk = await fetchChunk(state, apiCursor);
+            const available = chunk.entries.slice(skip);
+            const taken = available.slice(0, options.limit - entries.length);
+            for (const entry of taken) {
+                entries.push({ ...entry, index: index++ });
+            }
+
+            if (taken.length < available.length) {
+                // Stopped part way through this chunk, resume inside it
+                continuation = encodeCursor({ ...state, cursor: apiCursor, skip: skip + taken.length, index });
+                break;
+            }
+            if (!chunk.next) break;
+
+            apiCursor = chunk.next;
+            skip = 0;
+            if (entries.length >= options.limit || chunks === MAX_CHUNKS - 1) {
+                continuation = encodeCursor({ ...state, cursor: apiCursor, skip: 0, index });
+                break;
+            }
+        }
+
+        return {
+            id: state.kind === 'user' ? target.name : state.feedId,
+            title: state.title,
+            kind: state.kind,
+            entries,
+            continuation
+        };
+    } catch (error) {
+        throw wrapError(error, 'Failed to extract TikTok feed');
+    }
+}
+
+// Read the feed ID and title from the profile or tag page
+async function resolveFeed(target: FeedTarget): Promise<Cursor> {
+    const response = await httpRequest('tiktok', target.url, {
+        headers: {
+            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+            'Accept-Language': 'en-US,en;q=0.9'
+        }
+    });
+    if (!response.ok) {
+        throw upstreamHttpError(response.status, 'Failed to fetch TikTok feed page');
+    }
+
+    const $ = cheerio.load(await response.text());
+    const universalData = $('script#__UNIVERSAL_DATA_FOR_REHYDRATION__').html();
+    if (!universalData) {
+        throw new ExtractionError('Could not find feed data on the page');
+    }
+
+    let scope: any;
+    try {
+        scope = JSON.parse(universalData)?.__DEFAULT_SCOPE__;
+    } catch {
+        throw new ExtractionError('Failed to parse feed data');
+    }
+
+    if (target.kind === 'user') {
+        const user = scope?.['webapp.user-detail']?.userInfo?.user;
+        if (!user?.secUid) {
+            throw new VideoUnavailableError(`TikTok user @${target.name} not found`);
+        }
+        if (user.privateAccount) {
+            throw new VideoPrivateError(`TikTok account @${target.name} is private`);
+        }
+        return {
+            kind: 'user',
+            feedId: user.secUid,
+            title: user.nickname || `@${target.name}`,
+            cursor: '0',
+            skip: 0,
+            index: 1
+        };
+    }
+
+    const challenge = scope?.['webapp.challenge-detail']?.challengeInfo?.challenge;
+    if (!challenge?.id) {
+        throw new VideoUnavailableError(`TikTok hashtag #${target.name} not found`);
+    }
+    return {
+        kind: 'hashtag',
+        feedId: challenge.id,
+        title: `#${challenge.title || target.name}`,
+        cursor: '0',
+        skip: 0,
+        index: 1
+    };
+}
+
+async function fetchChunk(state: Cursor, cursor: string): Promise<Chunk> {
+    const host = `https://${config.platforms.tiktok.apiHost}`;
+    const apiUrl = state.kind === 'user'
+        ? `${host}/aweme/v1/aweme/post/?sec_user_id=${encodeURIComponent(state.feedId)}&count=${CHUNK_SIZE}&max_cursor=${cursor}`
+        : `${host}/aweme/v1/challenge/aweme/?ch_id=${encodeURIComponent(state.feedId)}&count=${CHUNK_SIZE}&cursor=${cursor}`;
+
+    const response = await httpRequest('tiktok', apiUrl, {
+        headers: {
+            'User-Agent': config.platforms.tiktok.apiUserAgent
+        }
+    });
+    if (!response.ok) {
+        throw upstreamHttpError(response.status, 'Failed to fetch TikTok feed');
+    }
+
+    const data: any = await response.json();
+    const next = state.kind === 'user' ? data.max_cursor : data.cursor;
+
+    return {
+        entries: (data.aweme_list ?? []).map(toEntry),
+        next: data.has_more && next !== undefined && String(next) !== cursor ? String(next) : undefined
+    };
+}
+
+function toEntry(aweme: any): PlaylistEntry {
+    const author = aweme.author?.unique_id;
+    const statistics = aweme.statistics ?? {};
+    return {
+        id: aweme.aweme_id,
+        url: author
+            ? `https://www.tiktok.com/@${author}/video/${aweme.aweme_id}`
+            : `https://www.tiktok.com/video/${aweme.aweme_id}`,
+        title: aweme.desc || `TikTok video ${aweme.aweme_id}`,
+        description: aweme.desc || '',
+        // The app API reports milliseconds
+        duration: Math.round((aweme.video?.duration ?? 0) / 1000),
+        thumbnail: aweme.video?.origin_cover?.url_list?.[0] ?? aweme.video?.cover?.url_list?.[0],
+        createdAt: aweme.create_time,
+        stats: {
+            views: statistics.play_count ?? 0,
+            likes: statistics.digg_count ?? 0,
+            comments: statistics.comment_count ?? 0,
+            shares: statistics.share_count ?? 0
+        },
+        index: 0
+    };
+}
+
+function encodeCursor(cursor: Cursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(token: string, kind: Cursor['kind']): Cursor {
+    try {
+        const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+        if (cursor.kind === kind && typeof cursor.feedId === 'string' && typeof cursor.title === 'string' &&
+            typeof cursor.cursor === 'string' && Number.isInteger(cursor.skip) && Number.isInteger(cursor.index)) {
+            return cursor;
+        }
+    } catch {
+        // Fall through to the error below
+    }
+    throw new InvalidRequestError('Invalid continuation token');
+}
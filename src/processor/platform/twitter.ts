@@ -0,0 +1,397 @@
+// ./src/processor/platform/twitter.ts
+import type { Thumbnail, VideoFormat, VideoMetadata } from '../extractvideo';
+import type { NormalizedUrl, PlatformExtractor } from './registry';
+import { config } from '../../config';
+import { httpRequest } from '../http';
+import { parseHlsPlaylist } from '../manifest';
+import { sortThumbnails } from '../thumbnails';
+import {
+    AgeRestrictedError,
+    ExtractionError,
+    InvalidUrlError,
+    VideoPrivateError,
+    VideoUnavailableError,
+    upstreamHttpError,
+    wrapError
+} from '../errors';
+
+interface TwitterTarget {
+    id: string;
+    /** Position of the video picked by a /video/N link, from 1 */
+    mediaIndex?: number;
+}
+
+interface TwitterVideoInfo {
+    title: string;
+    description: string;
+    duration: number;
+    thumbnail: string;
+    thumbnails: Thumbnail[];
+    formats: VideoFormat[];
+}
+
+const API_BASE = 'https://api.x.com';
+
+// GraphQL operation the web app uses to load a single post
+const TWEET_RESULT_QUERY = `${API_BASE}/graphql/2ICDjqPd81tulZcYrtpTuQ/TweetResultByRestId`;
+
+const TWEET_RESULT_FEATURES = {
+    creator_subscriptions_tweet_preview_api_enabled: true,
+    communities_web_enable_tweet_community_results_fetch: true,
+    c9s_tweet_anatomy_moderator_badge_enabled: true,
+    articles_preview_enabled: true,
+    tweetypie_unmention_optimization_enabled: true,
+    responsive_web_edit_tweet_api_enabled: true,
+    graphql_is_translatable_rweb_tweet_is_translatable_enabled: true,
+    view_counts_everywhere_api_enabled: true,
+    longform_notetweets_consumption_enabled: true,
+    responsive_web_twitter_article_tweet_consumption_enabled: true,
+    tweet_awards_web_tipping_enabled: false,
+    creator_subscriptions_quote_tweet_preview_enabled: false,
+    freedom_of_speech_not_reach_fetch_enabled: true,
+    standardized_nudges_misinfo: true,
+    tweet_with_visibility_results_prefer_gql_limited_actions_policy_enabled: true,
+    rweb_video_timestamps_enabled: true,
+    longform_notetweets_rich_text_read_enabled: true,
+    longform_notetweets_inline_media_enabled: true,
+    rweb_tipjar_consumption_enabled: true,
+    responsive_web_graphql_exclude_directive_enabled: true,
+    verified_phone_label_enabled: false,
+    responsive_web_graphql_skip_user_profile_image_extensions_enabled: false,
+    responsive_web_graphql_timeline_navigation_enabled: true,
+    responsive_web_enhance_cards_enabled: false
+};
+
+// /{user}/status/ID, /i/status/ID and /i/web/status/ID, optionally ending in /video/N
+const STATUS_PATH = /^\/(?:i\/web|i|\w{1,15})\/status(?:es)?\/(\d+)(?:\/(?:video|photo)\/(\d))?\/?$/i;
+
+// Guest tokens are shared by every request until the API rejects them
+let guestToken: string | undefined;
+
+export async function extractTwitterVideo(url: string): Promise<VideoMetadata> {
+    try {
+        const videoInfo = await fetchTwitterInfo(parseTwitterUrl(url));
+
+        if (videoInfo.formats.length === 0) {
+            throw new ExtractionError('No video formats found');
+        }
+
+        return {
+            title: videoInfo.title,
+            description: videoInfo.description,
+            duration: videoInfo.duration,
+            thumbnail: videoInfo.thumbnail,
+            thumbnails: videoInfo.thumbnails,
+            formats: videoInfo.formats
+        };
+    } catch (error) {
+        throw wrapError(error, 'Failed to extract Twitter video');
+    }
+}
+
+function parseTwitterUrl(url: string): TwitterTarget {
+    const target = findTwitterTarget(url);
+    if (!target) {
+        throw new InvalidUrlError('Invalid Twitter URL');
+    }
+    return target;
+}
+
+function findTwitterTarget(url: string): TwitterTarget | undefined {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return undefined;
+    }
+
+    if (!isTwitterHost(parsed.hostname)) return undefined;
+    const match = parsed.pathname.match(STATUS_PATH);
+    if (!match) return undefined;
+
+    return { id: match[1], mediaIndex: match[2] ? parseInt(match[2], 10) : undefined };
+}
+
+function isTwitterHost(hostname: string): boolean {
+    return /(^|\.)(twitter|x)\.com$/.test(hostname.toLowerCase());
+}
+
+/**
+ * Map a post link to its canonical x.com form. Links to one video of a post
+ * keep their /video/N suffix.
+ * @param url twitter.com or x.com post URL
+ * @returns NormalizedUrl, undefined when the URL isn't a post
+ */
+export function normalizeTwitterUrl(url: string): NormalizedUrl | undefined {
+    const target = findTwitterTarget(url);
+    if (!target) return undefined;
+
+    return {
+        platform: 'twitter',
+        kind: 'video',
+        id: target.id,
+        canonicalUrl: `https://x.com/i/status/${target.id}${target.mediaIndex ? `/video/${target.mediaIndex}` : ''}`
+    };
+}
+
+async function fetchTwitterInfo(target: TwitterTarget): Promise<TwitterVideoInfo> {
+    try {
+        const tweet = await fetchTweet(target.id);
+        const legacy = tweet.legacy ?? {};
+
+        const videos: any[] = (legacy.extended_entities?.media ?? [])
+            .filter((media: any) => media?.type === 'video' || media?.type === 'animated_gif');
+        if (videos.length === 0) {
+            throw new VideoUnavailableError('Post has no videos or GIFs');
+        }
+
+        // A /video/N link asks for one video, otherwise every video of the post is listed
+        const picked = videos
+            .map((media, index) => ({ media, mediaIndex: index + 1 }))
+            .filter(item => !target.mediaIndex || item.mediaIndex === target.mediaIndex);
+        if (picked.length === 0) {
+            throw new VideoUnavailableError(`Post has no video ${target.mediaIndex}`);
+        }
+
+        const formats: VideoFormat[] = [];
+        for (const { media, mediaIndex } of picked) {
+            formats.push(...extractVariantFormats(media, mediaIndex), ...await extractHlsFormats(media, mediaIndex));
+        }
+        formats.sort(sortFormats);
+
+        const thumbnails = listThumbnails(picked.map(item => item.media));
+        const text = readTweetText(tweet);
+        const author = tweet.core?.user_results?.result?.legacy?.name ?? tweet.core?.user_results?.result?.core?.name;
+        return {
+            title: buildTitle(author, text),
+            description: text,
+            duration: Math.round((picked[0].media.video_info?.duration_millis ?? 0) / 1000),
+            thumbnail: thumbnails[0]?.url ?? '',
+            thumbnails,
+            formats
+        };
+    } catch (error) {
+        throw wrapError(error, 'Failed to fetch Twitter post info');
+    }
+}
+
+/**
+ * Load a post through the GraphQL API as a guest. A rejected guest token is
+ * replaced once before giving up.
+ */
+async function fetchTweet(id: string): Promise<any> {
+    const query = new URLSearchParams({
+        variables: JSON.stringify({
+            tweetId: id,
+            withCommunity: false,
+            includePromotedContent: false,
+            withVoice: false
+        }),
+        features: JSON.stringify(TWEET_RESULT_FEATURES),
+        fieldToggles: JSON.stringify({ withArticleRichContentState: false })
+    });
+
+    let response = await requestTweet(`${TWEET_RESULT_QUERY}?${query}`, await getGuestToken());
+    if (response.status === 401 || response.status === 403) {
+        response = await requestTweet(`${TWEET_RESULT_QUERY}?${query}`, await getGuestToken(true));
+    }
+    if (!response.ok) {
+        throw upstreamHttpError(response.status, 'Failed to fetch Twitter post');
+    }
+
+    let data: any;
+    try {
+        data = await response.json();
+    } catch {
+        throw new ExtractionError('Failed to parse Twitter post response');
+    }
+    return unwrapTweetResult(data?.data?.tweetResult?.result);
+}
+
+function requestTweet(url: string, token: string) {
+    return httpRequest('twitter', url, {
+        headers: {
+            'Authorization': `Bearer ${config.platforms.twitter.bearerToken}`,
+            'X-Guest-Token': token,
+            'Referer': 'https://x.com/'
+        }
+    });
+}
+
+async function getGuestToken(refresh = false): Promise<string> {
+    if (guestToken && !refresh) {
+        return guestToken;
+    }
+
+    const response = await httpRequest('twitter', `${API_BASE}/1.1/guest/activate.json`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${config.platforms.twitter.bearerToken}` }
+    });
+    if (!response.ok) {
+        throw upstreamHttpError(response.status, 'Failed to get Twitter guest token');
+    }
+
+    const token = await response.json().then((data: any) => data?.guest_token as string | undefined, () => undefined);
+    if (!token) {
+        throw new ExtractionError('Twitter returned no guest token');
+    }
+    guestToken = token;
+    return token;
+}
+
+// Posts come wrapped in visibility results, or replaced by a tombstone when they can't be shown
+function unwrapTweetResult(result: any): any {
+    switch (result?.__typename) {
+        case 'Tweet':
+            return result;
+        case 'TweetWithVisibilityResults':
+            return result.tweet;
+        case 'TweetTombstone': {
+            const text: string = result.tombstone?.text?.text ?? '';
+            if (/age-restricted|adult content/i.test(text)) {
+                throw new AgeRestrictedError('Twitter post is age-restricted');
+            }
+            if (/limits who can view|protected/i.test(text)) {
+                throw new VideoPrivateError('Twitter post is from a protected account');
+            }
+            throw new VideoUnavailableError(text || 'Twitter post is unavailable');
+        }
+        case 'TweetUnavailable':
+            if (result.reason === 'Protected') {
+                throw new VideoPrivateError('Twitter post is from a protected account');
+            }
+            if (result.reason === 'NsfwLoggedOut') {
+                throw new AgeRestrictedError('Twitter post is age-restricted');
+            }
+            throw new VideoUnavailableError(`Twitter post is unavailable${result.reason ? ` (${result.reason})` : ''}`);
+        default:
+            throw new VideoUnavailableError('Twitter post not found');
+    }
+}
+
+// Each MP4 variant is a complete file, GIFs are silent loops
+function extractVariantFormats(media: any, mediaIndex: number): VideoFormat[] {
+    const variants: any[] = media.video_info?.variants ?? [];
+    const isGif = media.type === 'animated_gif';
+
+    return variants
+        .filter(variant => variant?.url && variant.content_type === 'video/mp4')
+        .map(variant => {
+            // Variant URLs carry their resolution, e.g. /vid/avc1/1280x720/
+            const size = variant.url.match(/\/(\d+)x(\d+)\//);
+            const width = size ? parseInt(size[1], 10) : media.original_info?.width;
+            const height = size ? parseInt(size[2], 10) : media.original_info?.height;
+            return {
+                quality: height ? `${height}p` : 'unknown',
+                format: 'mp4',
+                mimeType: 'video/mp4',
+                type: 'video' as const,
+                size: 0,
+                url: variant.url,
+                hasVideo: true,
+                hasAudio: !isGif,
+                width,
+                height,
+                bitrate: variant.bitrate || undefined,
+                mediaIndex
+            };
+        });
+}
+
+async function extractHlsFormats(media: any, mediaIndex: number): Promise<VideoFormat[]> {
+    const playlistUrl: string | undefined = (media.video_info?.variants ?? [])
+        .find((variant: any) => variant?.content_type === 'application/x-mpegURL')?.url;
+    if (!playlistUrl) return [];
+
+    try {
+        const response = await httpRequest('twitter', playlistUrl);
+        if (!response.ok) {
+            throw upstreamHttpError(response.status, 'Failed to fetch HLS playlist');
+        }
+        // Twitter segments its HLS streams as fragmented MP4
+        return parseHlsPlaylist(await response.text(), playlistUrl, 'mp4')
+            .map(format => ({ ...format, mediaIndex }));
+    } catch (error) {
+        console.error('Error extracting formats from Twitter HLS playlist:', error);
+        return [];
+    }
+}
+
+function listThumbnails(videos: any[]): Thumbnail[] {
+    return sortThumbnails(videos
+        .filter(media => media.media_url_https)
+        .map(media => ({
+            url: media.media_url_https,
+            width: media.original_info?.width,
+            height: media.original_info?.height
+        })));
+}
+
+// Long posts keep their full text in note_tweet, media links are appended as t.co URLs
+function readTweetText(tweet: any): string {
+    const text: string = tweet.note_tweet?.note_tweet_results?.result?.text ?? tweet.legacy?.full_text ?? '';
+    return text.replace(/\s*https:\/\/t\.co\/\w+$/, '').trim();
+}
+
+function buildTitle(author: string | undefined, text: string): string {
+    const line = text.split('\n')[0].trim();
+    const summary = line.length > 100 ? `${line.slice(0, 97)}...` : line;
+    if (author && summary) return `${author} - ${summary}`;
+    return author || summary || 'Untitled';
+}
+
+export async function listAvailableFormats(url: string): Promise<VideoFormat[]> {
+    try {
+        const videoInfo = await fetchTwitterInfo(parseTwitterUrl(url));
+        return videoInfo.formats;
+    } catch (error) {
+        throw wrapError(error, 'Failed to list formats');
+    }
+}
+
+export function getSupportedQualities(): string[] {
+    return ['180p', '270p', '360p', '480p', '720p', '1080p', 'highest'];
+}
+
+export function getSupportedFormats(): string[] {
+    return ['mp4'];
+}
+
+export function isTwitterUrl(url: string): boolean {
+    try {
+        return isTwitterHost(new URL(url).hostname);
+    } catch {
+        return false;
+    }
+}
+
+// First video of the post first, then highest resolution with MP4 files before HLS streams
+function sortFormats(a: VideoFormat, b: VideoFormat): number {
+    return (a.mediaIndex || 0) - (b.mediaIndex || 0) ||
+        (b.height || 0) - (a.height || 0) ||
+        Number(Boolean(a.protocol)) - Number(Boolean(b.protocol)) ||
+        (b.bitrate || 0) - (a.bitrate || 0);
+}
+
+function getVideoId(url: string): string | undefined {
+    const target = findTwitterTarget(url);
+    if (!target) return undefined;
+    // Keep single-video picks apart from the whole post in the cache
+    return target.mediaIndex ? `${target.id}-${target.mediaIndex}` : target.id;
+}
+
+export const twitterExtractor: PlatformExtractor = {
+    name: 'twitter',
+    matches: isTwitterUrl,
+    extract: (url) => extractTwitterVideo(url),
+    listFormats: async (url, type) => {
+        const formats = await listAvailableFormats(url);
+        return type ? formats.filter(format => format.type === type) : formats;
+    },
+    getSupportedQualities,
+    getSupportedFormats,
+    sortFormats,
+    getVideoId,
+    normalizeUrl: normalizeTwitterUrl,
+    cookieDomain: 'x.com'
+};
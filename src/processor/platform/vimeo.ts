@@ -0,0 +1,296 @@
+// ./src/processor/platform/vimeo.ts
+import type { Thumbnail, VideoFormat, VideoMetadata } from '../extractvideo';
+import type { NormalizedUrl, PlatformExtractor } from './registry';
+import { httpRequest } from '../http';
+import { parseDashManifest, parseHlsPlaylist } from '../manifest';
+import { sortThumbnails } from '../thumbnails';
+import {
+    ExtractionError,
+    InvalidUrlError,
+    VideoPrivateError,
+    VideoUnavailableError,
+    upstreamHttpError,
+    wrapError
+} from '../errors';
+
+interface VimeoTarget {
+    id: string;
+    /** Privacy hash of unlisted videos */
+    hash?: string;
+}
+
+interface VimeoVideoInfo {
+    title: string;
+    description: string;
+    duration: number;
+    thumbnail: string;
+    thumbnails: Thumbnail[];
+    formats: VideoFormat[];
+}
+
+// vimeo.com/ID, /ID/HASH, /channels/NAME/ID, /groups/NAME/videos/ID,
+// /album/ID/video/ID and /showcase/ID/video/ID
+const PAGE_PATH = /^\/(?:(?:channels|groups)\/[^/]+\/(?:videos\/)?|(?:album|showcase)\/\d+\/video\/)?(\d+)(?:\/([\da-f]{6,}))?\/?$/i;
+
+const PLAYER_PATH = /^\/video\/(\d+)\/?$/;
+
+export async function extractVimeoVideo(url: string): Promise<VideoMetadata> {
+    try {
+        const videoInfo = await fetchVimeoInfo(parseVimeoUrl(url));
+
+        if (videoInfo.formats.length === 0) {
+            throw new ExtractionError('No video formats found');
+        }
+
+        return {
+            title: videoInfo.title,
+            description: videoInfo.description,
+            duration: videoInfo.duration,
+            thumbnail: videoInfo.thumbnail,
+            thumbnails: videoInfo.thumbnails,
+            formats: videoInfo.formats
+        };
+    } catch (error) {
+        throw wrapError(error, 'Failed to extract Vimeo video');
+    }
+}
+
+function parseVimeoUrl(url: string): VimeoTarget {
+    const target = findVimeoTarget(url);
+    if (!target) {
+        throw new InvalidUrlError('Invalid Vimeo URL');
+    }
+    return target;
+}
+
+function findVimeoTarget(url: string): VimeoTarget | undefined {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return undefined;
+    }
+
+    const host = parsed.hostname.toLowerCase();
+    const match = host === 'player.vimeo.com'
+        ? parsed.pathname.match(PLAYER_PATH)
+        : /(^|\.)vimeo\.com$/.test(host) ? parsed.pathname.match(PAGE_PATH) : null;
+    if (!match) return undefined;
+
+    return { id: match[1], hash: match[2] ?? parsed.searchParams.get('h') ?? undefined };
+}
+
+/**
+ * Map a Vimeo link to its canonical form. Unlisted videos keep their privacy
+ * hash, it's needed to play them.
+ * @param url Vimeo page or player URL
+ * @returns NormalizedUrl, undefined when the URL isn't a Vimeo video
+ */
+export function normalizeVimeoUrl(url: string): NormalizedUrl | undefined {
+    const target = findVimeoTarget(url);
+    if (!target) return undefined;
+
+    return {
+        platform: 'vimeo',
+        kind: 'video',
+        id: target.id,
+        canonicalUrl: `https://vimeo.com/${target.id}${target.hash ? `/${target.hash}` : ''}`
+    };
+}
+
+async function fetchVimeoInfo(target: VimeoTarget): Promise<VimeoVideoInfo> {
+    try {
+        const playerConfig = await fetchPlayerConfig(target);
+        const video = playerConfig.video ?? {};
+        const files = playerConfig.request?.files ?? {};
+
+        const formats = [
+            ...extractProgressiveFormats(files.progressive),
+            ...await extractManifestFormats(files)
+        ].sort(sortFormats);
+
+        const thumbnails = listThumbnails(video);
+        return {
+            title: video.title || 'Untitled',
+            description: '',
+            duration: Math.round(video.duration || 0),
+            thumbnail: thumbnails[0]?.url ?? '',
+            thumbnails,
+            formats
+        };
+    } catch (error) {
+        throw wrapError(error, 'Failed to fetch Vimeo video info');
+    }
+}
+
+/**
+ * Fetch the player config of a video. Some videos only hand it out with the
+ * signature embedded in their page, that page is tried when the player
+ * refuses the request.
+ */
+async function fetchPlayerConfig(target: VimeoTarget): Promise<any> {
+    const playerUrl = `https://player.vimeo.com/video/${target.id}/config${target.hash ? `?h=${target.hash}` : ''}`;
+    const response = await httpRequest('vimeo', playerUrl, {
+        headers: { 'Referer': 'https://vimeo.com/' }
+    });
+    if (response.ok) {
+        return response.json();
+    }
+
+    const message = await response.json().then((data: any) => data?.message as string | undefined, () => undefined);
+    if (response.status === 403) {
+        const configUrl = await findPageConfigUrl(target);
+        if (configUrl) {
+            const pageConfig = await httpRequest('vimeo', configUrl, {
+                headers: { 'Referer': `https://vimeo.com/${target.id}` }
+            });
+            if (pageConfig.ok) {
+                return pageConfig.json();
+            }
+        }
+        throw new VideoPrivateError(message || 'Vimeo video is private or can only be embedded on other sites');
+    }
+    if (response.status === 401) {
+        throw new VideoPrivateError('Vimeo video is password protected');
+    }
+    if (response.status === 404) {
+        throw new VideoUnavailableError(message || 'Vimeo video not found');
+    }
+    throw upstreamHttpError(response.status, 'Failed to fetch Vimeo player config');
+}
+
+// Video pages embed a signed config_url for their player
+async function findPageConfigUrl(target: VimeoTarget): Promise<string | undefined> {
+    try {
+        const response = await httpRequest('vimeo', `https://vimeo.com/${target.id}${target.hash ? `/${target.hash}` : ''}`);
+        if (!response.ok) return undefined;
+
+        const configUrl = (await response.text()).match(/"config_url"\s*:\s*"([^"]+)"/)?.[1];
+        return configUrl ? JSON.parse(`"${configUrl}"`) : undefined;
+    } catch (error) {
+        console.error('Failed to read Vimeo page:', error);
+        return undefined;
+    }
+}
+
+function extractProgressiveFormats(progressive: any): VideoFormat[] {
+    if (!Array.isArray(progressive)) return [];
+
+    return progressive
+        .filter((file: any) => file?.url)
+        .map((file: any) => ({
+            quality: file.quality || (file.height ? `${file.height}p` : 'unknown'),
+            format: 'mp4',
+            mimeType: file.mime || 'video/mp4',
+            type: 'video' as const,
+            size: 0,
+            url: file.url,
+            hasVideo: true,
+            hasAudio: true,
+            width: file.width,
+            height: file.height,
+            fps: file.fps
+        }));
+}
+
+// HLS and DASH are offered on several CDNs, the default one is enough
+async function extractManifestFormats(files: any): Promise<VideoFormat[]> {
+    const manifests: [string, (text: string, url: string) => VideoFormat[]][] = [];
+    const hlsUrl = pickCdnUrl(files.hls);
+    if (hlsUrl) {
+        // Vimeo segments its HLS streams as fragmented MP4
+        manifests.push([hlsUrl, (text, url) => parseHlsPlaylist(text, url, 'mp4')]);
+    }
+    const dashUrl = pickCdnUrl(files.dash);
+    if (dashUrl) {
+        // The CDN URL points at a JSON playlist, the MPD sits next to it
+        manifests.push([dashUrl.replace(/\/(master|playlist)\.json/, '/$1.mpd'), parseDashManifest]);
+    }
+
+    const formats: VideoFormat[] = [];
+    for (const [url, parse] of manifests) {
+        try {
+            const response = await httpRequest('vimeo', url);
+            if (!response.ok) {
+                throw upstreamHttpError(response.status, 'Failed to fetch manifest');
+            }
+            formats.push(...parse(await response.text(), url));
+        } catch (error) {
+            console.error('Error extracting formats from Vimeo manifest:', error);
+        }
+    }
+    return formats;
+}
+
+function pickCdnUrl(files: any): string | undefined {
+    const cdns = files?.cdns;
+    if (!cdns || typeof cdns !== 'object') return undefined;
+    return (cdns[files.default_cdn] ?? Object.values(cdns)[0] as any)?.url;
+}
+
+// thumbs maps widths ('640', '1280') to image URLs, 'base' is the unsized original
+function listThumbnails(video: any): Thumbnail[] {
+    const ratio = video.width && video.height ? video.height / video.width : undefined;
+    const thumbnails: Thumbnail[] = Object.entries(video.thumbs ?? {})
+        .filter(([key, url]) => /^\d+$/.test(key) && typeof url === 'string')
+        .map(([key, url]) => {
+            const width = parseInt(key, 10);
+            return { url: url as string, width, height: ratio ? Math.round(width * ratio) : undefined };
+        });
+    return sortThumbnails(thumbnails);
+}
+
+export async function listAvailableFormats(url: string): Promise<VideoFormat[]> {
+    try {
+        const videoInfo = await fetchVimeoInfo(parseVimeoUrl(url));
+        return videoInfo.formats;
+    } catch (error) {
+        throw wrapError(error, 'Failed to list formats');
+    }
+}
+
+export function getSupportedQualities(): string[] {
+    return ['240p', '360p', '540p', '720p', '1080p', '1440p', '2160p', 'highest'];
+}
+
+export function getSupportedFormats(): string[] {
+    return ['mp4'];
+}
+
+export function isVimeoUrl(url: string): boolean {
+    try {
+        return /(^|\.)vimeo\.com$/.test(new URL(url).hostname.toLowerCase());
+    } catch {
+        return false;
+    }
+}
+
+// Highest resolution first, progressive files before manifest streams of the same size
+function sortFormats(a: VideoFormat, b: VideoFormat): number {
+    return (b.height || 0) - (a.height || 0) ||
+        Number(Boolean(a.protocol)) - Number(Boolean(b.protocol)) ||
+        (b.bitrate || 0) - (a.bitrate || 0);
+}
+
+function getVideoId(url: string): string | undefined {
+    return findVimeoTarget(url)?.id;
+}
+
+export const vimeoExtractor: PlatformExtractor = {
+    name: 'vimeo',
+    matches: isVimeoUrl,
+    extract: (url) => extractVimeoVideo(url),
+    listFormats: async (url, type) => {
+        const formats = await listAvailableFormats(url);
+        return type ? formats.filter(format => format.type === type) : formats;
+    },
+    getSupportedQualities,
+    getSupportedFormats,
+    sortFormats,
+    getVideoId,
+    normalizeUrl: normalizeVimeoUrl,
+    cookieDomain: 'vimeo.com',
+    downloadHeaders: {
+        'Referer': 'https://player.vimeo.com/'
+    }
+};
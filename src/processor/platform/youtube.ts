@@ -1,22 +1,34 @@
-import fetch from 'node-fetch';
 import * as cheerio from 'cheerio';
-import type { VideoMetadata } from '../extractvideo';
+import type { SubtitleTrack, Thumbnail, VideoFormat, VideoMetadata } from '../extractvideo';
+import type { SubtitleDocument } from '../extractsubtitles';
+import type { NormalizedUrl, PlatformExtractor, SubtitleOptions } from './registry';
+import { httpRequest } from '../http';
+import { config } from '../../config';
+import { parseDashManifest, parseHlsPlaylist } from '../manifest';
+import { sortThumbnails } from '../thumbnails';
+import { extractPlayerUrl, loadPlayer, type YouTubePlayer } from './youtubeplayer';
+import { clientRequiresPlayer, fetchInnerTubePlayer, type InnerTubeClientName } from './youtubeinnertube';
+import { extractYouTubePlaylist, isYouTubePlaylistUrl, parseYouTubeFeedUrl } from './youtubeplaylist';
+import { fetchYouTubeCaptionTrack, listYouTubeSubtitles } from './youtubesubtitles';
+import {
+    AgeRestrictedError,
+    ExtractionError,
+    GeoBlockedError,
+    InvalidUrlError,
+    VideoPrivateError,
+    VideoUnavailableError,
+    upstreamHttpError,
+    wrapError
+} from '../errors';
 
 interface VideoInfo {
     title: string;
     description: string;
     duration: number;
     thumbnail: string;
+    thumbnails: Thumbnail[];
     formats: VideoFormat[];
-}
-
-interface VideoFormat {
-    quality: string;
-    format: string;
-    mimeType: string;
-    type: 'audio' | 'video';
-    size: number;
-    url: string;
+    subtitles: SubtitleTrack[];
 }
 
 export async function extractYouTubeVideo(url: string, format?: string, quality?: string): Promise<VideoMetadata> {
@@ -25,14 +37,14 @@ export async function extractYouTubeVideo(url: string, format?: string, quality?
         const videoInfo = await fetchVideoInfo(videoId);
         
         if (!videoInfo.formats || videoInfo.formats.length === 0) {
-            throw new Error('No video formats found');
+            throw new ExtractionError('No video formats found');
         }
 
         // Filter out formats without URLs
         videoInfo.formats = videoInfo.formats.filter(format => format.url && format.url.length > 0);
         
         if (videoInfo.formats.length === 0) {
-            throw new Error('No formats with valid URLs found');
+            throw new ExtractionError('No formats with valid URLs found');
         }
         
         return {
@@ -40,101 +52,81 @@ export async function extractYouTubeVideo(url: string, format?: string, quality?
             description: videoInfo.description,
             duration: videoInfo.duration,
             thumbnail: videoInfo.thumbnail,
-            formats: videoInfo.formats
+            thumbnails: videoInfo.thumbnails,
+            formats: videoInfo.formats,
+            subtitles: videoInfo.subtitles
         };
     } catch (error) {
-        if (error instanceof Error) {
-            throw new Error(`Failed to extract YouTube video: ${error.message}`);
-        } else {
-            throw new Error('Failed to extract YouTube video: Unknown error');
-        }
+        throw wrapError(error, 'Failed to extract YouTube video');
     }
 }
 
-// Helper function to decode cipher
-function decodeCipher(signatureCipher: string): string {
+// Helper function to decode cipher using the player's signature transform
+function decodeCipher(signatureCipher: string, player?: YouTubePlayer): string {
     try {
         const params = new URLSearchParams(signatureCipher);
         const url = params.get('url') || '';
-        const sp = params.get('sp') || '';
+        const sp = params.get('sp') || 'signature';
         const s = params.get('s') || '';
         
         if (!url) return '';
+        if (!s) return url;
+        // Without the player transform the scrambled signature is rejected upstream
+        if (!player) return '';
         
-        // Construct the final URL with the signature
-        const decodedUrl = decodeURIComponent(url);
-        if (s && sp) {
-            return `${decodedUrl}&${sp}=${encodeURIComponent(s)}`;
-        }
-        return decodedUrl;
+        const decodedUrl = new URL(url);
+        decodedUrl.searchParams.set(sp, player.decipher(s));
+        return decodedUrl.toString();
     } catch (error) {
         console.error('Error decoding cipher:', error);
         return '';
     }
 }
 
-function extractFormatsFromPlayerResponse(playerResponse: any): VideoFormat[] {
+// Rewrite the 'n' query parameter, untransformed values are throttled upstream.
+// Formats share a handful of n values, each one is transformed once.
+function transformThrottleParams(formats: VideoFormat[], player?: YouTubePlayer): VideoFormat[] {
+    if (!player) return formats;
+
+    const transformed = new Map<string, string>();
+    return formats.map(format => {
+        try {
+            const url = new URL(format.url);
+            const n = url.searchParams.get('n');
+            if (!n) return format;
+
+            if (!transformed.has(n)) {
+                transformed.set(n, player.transformN(n));
+            }
+            url.searchParams.set('n', transformed.get(n)!);
+            return { ...format, url: url.toString() };
+        } catch (error) {
+            console.error('Error transforming n parameter:', error);
+            return format;
+        }
+    });
+}
+
+function extractFormatsFromPlayerResponse(playerResponse: any, player: YouTubePlayer | undefined, client: InnerTubeClientName): VideoFormat[] {
     const formats: VideoFormat[] = [];
     
     try {
         const streamingData = playerResponse?.streamingData;
         if (!streamingData) return formats;
 
-        // Process adaptive formats
-        const adaptiveFormats = streamingData.adaptiveFormats || [];
-        adaptiveFormats.forEach((format: any) => {
-            let finalUrl = '';
-            if (format.url) {
-                finalUrl = format.url;
-            } else if (format.signatureCipher) {
-                finalUrl = decodeCipher(format.signatureCipher);
-            }
-
-            if (finalUrl) {
-                const { mimeType, type } = getMimeType(format.mimeType);
-                formats.push({
-                    quality: format.qualityLabel || format.quality,
-                    format: mimeType.split('/')[1] || 'unknown',
-                    mimeType,
-                    type,
-                    size: format.contentLength ? parseInt(format.contentLength) : 0,
-                    url: finalUrl
-                });
-            }
-        });
-
-        // Process regular formats
-        const regularFormats = streamingData.formats || [];
-        regularFormats.forEach((format: any) => {
-            let finalUrl = '';
-            if (format.url) {
-                finalUrl = format.url;
-            } else if (format.signatureCipher) {
-                finalUrl = decodeCipher(format.signatureCipher);
-            }
+        // Adaptive streams carry either video or audio, never both
+        for (const format of streamingData.adaptiveFormats || []) {
+            const converted = toVideoFormat(format, false, client, player);
+            if (converted) formats.push(converted);
+        }
 
-            if (finalUrl) {
-                const { mimeType, type } = getMimeType(format.mimeType);
-                formats.push({
-                    quality: format.qualityLabel || format.quality,
-                    format: mimeType.split('/')[1] || 'unknown',
-                    mimeType,
-                    type,
-                    size: format.contentLength ? parseInt(format.contentLength) : 0,
-                    url: finalUrl
-                });
-            }
-        });
+        // Muxed streams carry both
+        for (const format of streamingData.formats || []) {
+            const converted = toVideoFormat(format, true, client, player);
+            if (converted) formats.push(converted);
+        }
 
-        // Sort formats by quality (resolution for video, bitrate for audio)
-        return formats.sort((a, b) => {
-            if (a.type === 'video' && b.type === 'video') {
-                const aQuality = parseInt(a.quality.replace(/[^\d]/g, '') || '0');
-                const bQuality = parseInt(b.quality.replace(/[^\d]/g, '') || '0');
-                return bQuality - aQuality;
-            }
-            return 0;
-        });
+        return formats.sort(compareFormatQuality);
     } catch (error) {
         console.error('Error extracting formats from player response:', error);
     }
@@ -142,86 +134,423 @@ function extractFormatsFromPlayerResponse(playerResponse: any): VideoFormat[] {
     return formats;
 }
 
-// Rest of the functions remain the same
+// Sort formats by quality (resolution for video, bitrate for audio)
+function compareFormatQuality(a: VideoFormat, b: VideoFormat): number {
+    if (a.type === 'video' && b.type === 'video') {
+        return (b.height || 0) - (a.height || 0) || (b.fps || 0) - (a.fps || 0);
+    }
+    if (a.type === 'audio' && b.type === 'audio') {
+        return (b.bitrate || 0) - (a.bitrate || 0);
+    }
+    return 0;
+}
+
+/**
+ * Read the formats of the DASH and HLS manifests. Live streams and some
+ * videos only list their streams there.
+ * @param playerResponse Parsed ytInitialPlayerResponse
+ * @returns VideoFormat[], empty when there are no manifests or they can't be read
+ */
+async function extractFormatsFromManifests(playerResponse: any): Promise<VideoFormat[]> {
+    const streamingData = playerResponse?.streamingData ?? {};
+    const manifests: [string | undefined, (text: string, url: string) => VideoFormat[]][] = [
+        [streamingData.dashManifestUrl, parseDashManifest],
+        [streamingData.hlsManifestUrl, parseHlsPlaylist]
+    ];
+
+    const formats: VideoFormat[] = [];
+    for (const [url, parse] of manifests) {
+        if (!url) continue;
+        try {
+            const response = await httpRequest('youtube', url);
+            if (!response.ok) {
+                throw upstreamHttpError(response.status, 'Failed to fetch manifest');
+            }
+            formats.push(...parse(await response.text(), url));
+        } catch (error) {
+            console.error('Error extracting formats from manifest:', error);
+        }
+    }
+    return formats.sort(compareFormatQuality);
+}
+
+/**
+ * Convert an InnerTube streaming format, keeping its technical details
+ * @param format Entry of streamingData.formats or adaptiveFormats
+ * @param muxed True for streamingData.formats, which hold video and audio
+ * @param client InnerTube client the player response was requested as
+ * @param player Player transforms used to sign the URL
+ * @returns VideoFormat, or undefined when no usable URL could be built
+ */
+function toVideoFormat(format: any, muxed: boolean, client: InnerTubeClientName, player?: YouTubePlayer): VideoFormat | undefined {
+    let url = '';
+    if (format.url) {
+        url = format.url;
+    } else if (format.signatureCipher) {
+        url = decodeCipher(format.signatureCipher, player);
+    }
+    if (!url) return undefined;
+
+    const { mimeType, type, codecs } = getMimeType(format.mimeType);
+    const hasVideo = muxed || type === 'video';
+    const hasAudio = muxed || type === 'audio';
+    return {
+        quality: format.qualityLabel || format.quality,
+        format: mimeType.split('/')[1] || 'unknown',
+        mimeType,
+        type,
+        size: format.contentLength ? parseInt(format.contentLength) : 0,
+        url,
+        hasVideo,
+        hasAudio,
+        itag: format.itag,
+        width: hasVideo ? format.width : undefined,
+        height: hasVideo ? format.height : undefined,
+        fps: hasVideo ? format.fps : undefined,
+        bitrate: format.averageBitrate || format.bitrate,
+        codecs,
+        audioSampleRate: hasAudio && format.audioSampleRate ? parseInt(format.audioSampleRate, 10) : undefined,
+        audioChannels: hasAudio ? format.audioChannels : undefined,
+        hdr: hasVideo ? isHdr(format) : undefined,
+        initRange: format.initRange ? `${format.initRange.start}-${format.initRange.end}` : undefined,
+        indexRange: format.indexRange ? `${format.indexRange.start}-${format.indexRange.end}` : undefined,
+        client
+    };
+}
+
+// HDR streams use PQ or HLG transfer, the quality label also says so
+function isHdr(format: any): boolean {
+    const transfer = format.colorInfo?.transferCharacteristics;
+    return transfer === 'COLOR_TRANSFER_CHARACTERISTICS_SMPTEST2084' ||
+        transfer === 'COLOR_TRANSFER_CHARACTERISTICS_ARIB_STD_B67' ||
+        /HDR/.test(format.qualityLabel || '');
+}
+
 function extractVideoId(url: string): string {
-    const regex = /(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/;
-    const match = url.match(regex);
-    
-    if (!match) {
-        throw new Error('Invalid YouTube URL');
+    const normalized = normalizeYouTubeUrl(url);
+    if (normalized?.kind !== 'video') {
+        throw new InvalidUrlError('Invalid YouTube URL');
     }
-    
-    return match[1];
+    return normalized.id;
+}
+
+const VIDEO_ID = /^[\w-]{11}$/;
+
+// Paths that carry the video ID as their second segment
+const VIDEO_PATHS = ['shorts', 'live', 'embed', 'v', 'e'];
+
+/**
+ * Map any YouTube link to its canonical form: watch, Shorts, live, embed
+ * (including youtube-nocookie.com) and youtu.be links on www, m and music
+ * hosts, plus playlist and channel URLs
+ * @param url YouTube URL
+ * @returns NormalizedUrl, undefined when the URL isn't a known YouTube link
+ */
+export function normalizeYouTubeUrl(url: string): NormalizedUrl | undefined {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return undefined;
+    }
+
+    const host = parsed.hostname.toLowerCase();
+    const segments = parsed.pathname.split('/').filter(Boolean);
+    let videoId: string | undefined;
+    if (host === 'youtu.be') {
+        videoId = segments[0];
+    } else if (/(^|\.)youtube(-nocookie)?\.com$/.test(host)) {
+        videoId = segments[0] === 'watch'
+            ? parsed.searchParams.get('v') ?? undefined
+            : VIDEO_PATHS.includes(segments[0]) ? segments[1] : undefined;
+    }
+    if (videoId && VIDEO_ID.test(videoId)) {
+        return {
+            platform: 'youtube',
+            kind: 'video',
+            id: videoId,
+            canonicalUrl: `https://www.youtube.com/watch?v=${videoId}`
+        };
+    }
+
+    const feed = parseYouTubeFeedUrl(url);
+    if (feed) {
+        return { platform: 'youtube', kind: feed.kind, id: feed.id, canonicalUrl: feed.url };
+    }
+    return undefined;
 }
 
 async function fetchVideoInfo(videoId: string): Promise<VideoInfo> {
     try {
-        const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
-        const response = await fetch(videoUrl, {
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-            }
+        const { playerApiPrimary } = config.platforms.youtube;
+        let firstError: unknown;
+        // The page also provides the title, the player script and the session
+        // the player API is called with. When it can't be fetched (429, 5xx)
+        // the clients that don't need the player script may still answer.
+        const page = await fetchWatchPage(videoId).catch(error => {
+            console.error('Failed to fetch watch page:', error);
+            firstError = error;
+            return undefined;
         });
-        
-        if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        
-        const html = await response.text();
-        const $ = cheerio.load(html);
-        
-        const jsonLd = $('script[type="application/ld+json"]').html();
-        let videoData = {};
-        if (jsonLd) {
-            try {
-                videoData = JSON.parse(jsonLd);
-            } catch (e) {
-                console.error('Failed to parse JSON-LD:', e);
-            }
-        }
+        const player = page ? await loadPlayerForPage(page.html) : undefined;
 
-        const playerResponseMatch = html.match(/ytInitialPlayerResponse\s*=\s*({.+?})\s*;/);
-        let playerResponse = {};
-        if (playerResponseMatch) {
+        let playerResponse: any;
+        let formats: VideoFormat[] = [];
+        const sources = playerApiPrimary ? ['api', 'page'] : ['page', 'api'];
+        for (const source of sources) {
             try {
-                playerResponse = JSON.parse(playerResponseMatch[1]);
-            } catch (e) {
-                console.error('Failed to parse player response:', e);
+                const result = source === 'page'
+                    ? readPagePlayer(page, player)
+                    : await fetchClientFormats(videoId, page?.html, player);
+                playerResponse ??= result.playerResponse;
+                // Live streams only list manifests, another source won't do better
+                if (result.formats.length > 0 || hasManifests(result.playerResponse)) {
+                    playerResponse = result.playerResponse;
+                    formats = result.formats;
+                    break;
+                }
+            } catch (error) {
+                // The next source may still be served, e.g. when the page asks to sign in
+                firstError ??= error;
             }
         }
-
-        const title = $('meta[name="title"]').attr('content') || 
-                     $('meta[property="og:title"]').attr('content') ||
-                     'Untitled';
-        const description = $('meta[name="description"]').attr('content') || 
-                          $('meta[property="og:description"]').attr('content') ||
-                          '';
-        const thumbnail = `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`;
-        
-        const formats = extractFormatsFromPlayerResponse(playerResponse);
+        if (!playerResponse) {
+            throw firstError;
+        }
+        if (formats.length === 0) {
+            formats = await extractFormatsFromManifests(playerResponse);
+        }
         
         if (formats.length === 0) {
-            throw new Error('No video formats found');
+            throw new ExtractionError('No video formats found');
         }
+        formats = transformThrottleParams(formats, player);
+
+        const details = playerResponse.videoDetails ?? {};
+        const title = page?.$('meta[name="title"]').attr('content') ||
+                     page?.$('meta[property="og:title"]').attr('content') ||
+                     details.title ||
+                     'Untitled';
+        const description = page?.$('meta[name="description"]').attr('content') ||
+                          page?.$('meta[property="og:description"]').attr('content') ||
+                          details.shortDescription ||
+                          '';
+
+        const thumbnails = listThumbnails(videoId, playerResponse);
+        // Sizes the player lists exist, the standard ones are only checked by /thumbnail
+        const thumbnail = sortThumbnails(listPlayerThumbnails(playerResponse))[0]?.url ??
+            `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
         
         return {
             title,
             description,
             duration: extractDuration(playerResponse),
             thumbnail,
-            formats
+            thumbnails,
+            formats,
+            subtitles: listYouTubeSubtitles(playerResponse)
         };
-    } catch (error: any) {
-        throw new Error(`Failed to fetch video info: ${error.message}`);
+    } catch (error) {
+        throw wrapError(error, 'Failed to fetch video info');
+    }
+}
+
+/**
+ * Read the formats of the player response embedded in the watch page
+ * @throws ExtractionError when the page has none, which happens when its
+ * layout changed or a consent or bot check page was served instead
+ */
+function readPagePlayer(
+    page: WatchPage | undefined,
+    player: YouTubePlayer | undefined
+): { playerResponse: any; formats: VideoFormat[] } {
+    const playerResponse = page?.playerResponse;
+    if (!playerResponse?.playabilityStatus && !playerResponse?.streamingData) {
+        throw new ExtractionError('The watch page has no player response');
+    }
+    checkPlayability(playerResponse);
+    return { playerResponse, formats: extractFormatsFromPlayerResponse(playerResponse, player, 'web') };
+}
+
+function hasManifests(playerResponse: any): boolean {
+    return Boolean(playerResponse?.streamingData?.dashManifestUrl || playerResponse?.streamingData?.hlsManifestUrl);
+}
+
+/**
+ * Ask the player API as each configured client and merge their formats.
+ * A format offered by several clients is kept from the first one listed.
+ * @param videoId 11 character video ID
+ * @param html Watch page, when available, for the API key and session
+ * @param player Player transforms, clients that need them are skipped without
+ * @returns The first playable player response and the merged formats
+ */
+async function fetchClientFormats(
+    videoId: string,
+    html: string | undefined,
+    player: YouTubePlayer | undefined
+): Promise<{ playerResponse: any; formats: VideoFormat[] }> {
+    const options = {
+        signatureTimestamp: player?.signatureTimestamp,
+        apiKey: html?.match(/"INNERTUBE_API_KEY"\s*:\s*"([^"]+)"/)?.[1],
+        visitorData: html?.match(/"VISITOR_DATA"\s*:\s*"([^"]+)"/)?.[1]
+    };
+
+    let playerResponse: any;
+    let firstError: unknown;
+    const formats: VideoFormat[] = [];
+    for (const client of config.platforms.youtube.playerClients as InnerTubeClientName[]) {
+        if (clientRequiresPlayer(client) && !player) {
+            console.error(`Skipping ${client} client, its formats need the player script`);
+            continue;
+        }
+        try {
+            const response = await fetchInnerTubePlayer(videoId, client, options);
+            checkPlayability(response);
+            playerResponse ??= response;
+            for (const format of extractFormatsFromPlayerResponse(response, player, client)) {
+                if (!formats.some(existing => existing.itag !== undefined && existing.itag === format.itag)) {
+                    formats.push(format);
+                }
+            }
+        } catch (error) {
+            console.error(`Player API request as ${client} client failed:`, error);
+            firstError ??= error;
+        }
+    }
+
+    if (!playerResponse) {
+        throw firstError ?? new ExtractionError('No player API client could be used');
+    }
+    return { playerResponse, formats: formats.sort(compareFormatQuality) };
+}
+
+// Sizes i.ytimg.com serves for every video, maxresdefault and sddefault
+// only exist when the upload was large enough
+const STANDARD_THUMBNAILS: [string, number, number][] = [
+    ['maxresdefault', 1280, 720],
+    ['sddefault', 640, 480],
+    ['hqdefault', 480, 360],
+    ['mqdefault', 320, 180],
+    ['default', 120, 90]
+];
+
+// Thumbnails listed in the player response plus the standard sizes
+function listThumbnails(videoId: string, playerResponse: any): Thumbnail[] {
+    const standard = STANDARD_THUMBNAILS.map(([name, width, height]) => ({
+        url: `https://i.ytimg.com/vi/${videoId}/${name}.jpg`,
+        width,
+        height
+    }));
+    return sortThumbnails([...listPlayerThumbnails(playerResponse), ...standard]);
+}
+
+function listPlayerThumbnails(playerResponse: any): Thumbnail[] {
+    return (playerResponse?.videoDetails?.thumbnail?.thumbnails ?? [])
+        .filter((thumbnail: any) => typeof thumbnail.url === 'string')
+        .map((thumbnail: any) => ({ url: thumbnail.url, width: thumbnail.width, height: thumbnail.height }));
+}
+
+interface WatchPage {
+    html: string;
+    $: cheerio.CheerioAPI;
+    playerResponse: any;
+}
+
+// Fetch the watch page and parse its embedded player response
+async function fetchWatchPage(videoId: string): Promise<WatchPage> {
+    const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    const response = await httpRequest('youtube', videoUrl);
+    
+    if (!response.ok) {
+        throw upstreamHttpError(response.status, 'Failed to fetch watch page');
+    }
+    
+    const html = await response.text();
+    const $ = cheerio.load(html);
+
+    const playerResponseMatch = html.match(/ytInitialPlayerResponse\s*=\s*({.+?})\s*;/);
+    let playerResponse = {};
+    if (playerResponseMatch) {
+        try {
+            playerResponse = JSON.parse(playerResponseMatch[1]);
+        } catch (e) {
+            console.error('Failed to parse player response:', e);
+        }
+    }
+
+    return { html, $, playerResponse };
+}
+
+/**
+ * Download one subtitle track of a video
+ * @param url Video URL
+ * @param options Language, kind and translation target
+ * @returns Promise<SubtitleDocument>
+ */
+export async function fetchYouTubeSubtitles(url: string, options: SubtitleOptions): Promise<SubtitleDocument> {
+    try {
+        const { playerResponse } = await fetchWatchPage(extractVideoId(url));
+        checkPlayability(playerResponse);
+        return await fetchYouTubeCaptionTrack(playerResponse, options);
+    } catch (error) {
+        throw wrapError(error, 'Failed to fetch YouTube subtitles');
+    }
+}
+
+/**
+ * Translate playabilityStatus into a typed error when the video can't be played
+ * @param playerResponse Parsed ytInitialPlayerResponse
+ */
+function checkPlayability(playerResponse: any): void {
+    const playability = playerResponse?.playabilityStatus;
+    if (!playability || playability.status === 'OK') return;
+
+    const reason: string = playability.reason ||
+        playability.messages?.[0] ||
+        playability.errorScreen?.playerErrorMessageRenderer?.reason?.simpleText ||
+        'Video is unavailable';
+    const normalized = reason.toLowerCase();
+
+    if (playability.status === 'AGE_CHECK_REQUIRED' || playability.status === 'AGE_VERIFICATION_REQUIRED' ||
+        normalized.includes('confirm your age') || normalized.includes('age-restricted')) {
+        throw new AgeRestrictedError(reason);
+    }
+    if (normalized.includes('private')) {
+        throw new VideoPrivateError(reason);
+    }
+    if (normalized.includes('country') || normalized.includes('region')) {
+        throw new GeoBlockedError(reason);
+    }
+    // LIVE_STREAM_OFFLINE and similar still carry usable metadata
+    if (['ERROR', 'UNPLAYABLE', 'LOGIN_REQUIRED'].includes(playability.status)) {
+        throw new VideoUnavailableError(reason);
+    }
+}
+
+// Load the player transforms used for signature and 'n' parameter rewriting
+async function loadPlayerForPage(html: string): Promise<YouTubePlayer | undefined> {
+    const playerUrl = extractPlayerUrl(html);
+    if (!playerUrl) {
+        console.error('Player script URL not found, ciphered formats will be skipped');
+        return undefined;
+    }
+
+    try {
+        return await loadPlayer(playerUrl);
+    } catch (error) {
+        console.error('Failed to load player transforms:', error);
+        return undefined;
     }
 }
 
-function getMimeType(mimeTypeStr: string): { mimeType: string; type: 'audio' | 'video' } {
+// 'video/mp4; codecs="avc1.640028"' -> video/mp4, video, avc1.640028
+function getMimeType(mimeTypeStr: string): { mimeType: string; type: 'audio' | 'video'; codecs?: string } {
     const parts = mimeTypeStr?.split(';')[0].split('/') || ['', ''];
     const type = parts[0] === 'audio' ? 'audio' : 'video';
     return {
         mimeType: parts.join('/'),
-        type
+        type,
+        codecs: mimeTypeStr?.match(/codecs="([^"]+)"/)?.[1]
     };
 }
 
@@ -239,10 +568,7 @@ export async function getFormatsByType(url: string, type: 'audio' | 'video'): Pr
         const videoInfo = await fetchVideoInfo(videoId);
         return videoInfo.formats.filter(format => format.type === type);
     } catch (error) {
-        if (error instanceof Error) {
-            throw new Error(`Failed to get ${type} formats: ${error.message}`);
-        }
-        throw new Error(`Failed to get ${type} formats: Unknown error`);
+        throw wrapError(error, `Failed to get ${type} formats`);
     }
 }
 
@@ -252,10 +578,7 @@ export async function listAvailableFormats(url: string): Promise<VideoFormat[]>
         const videoInfo = await fetchVideoInfo(videoId);
         return videoInfo.formats;
     } catch (error) {
-        if (error instanceof Error) {
-            throw new Error(`Failed to list formats: ${error.message}`);
-        }
-        throw new Error('Failed to list formats: Unknown error');
+        throw wrapError(error, 'Failed to list formats');
     }
 }
 
@@ -265,4 +588,49 @@ export function getSupportedQualities(): string[] {
 
 export function getSupportedFormats(): string[] {
     return ['mp4', 'webm'];
-}
\ No newline at end of file
+}
+
+export function isYouTubeUrl(url: string): boolean {
+    try {
+        return /(^|\.)(youtube\.com|youtube-nocookie\.com|youtu\.be)$/.test(new URL(url).hostname.toLowerCase());
+    } catch {
+        return false;
+    }
+}
+
+// Sort by resolution, highest first
+function sortFormats(a: VideoFormat, b: VideoFormat): number {
+    const getQualityNumber = (quality: string) => {
+        const match = quality.match(/(\d+)p/);
+        return match ? parseInt(match[1]) : 0;
+    };
+    return getQualityNumber(b.quality) - getQualityNumber(a.quality);
+}
+
+function getVideoId(url: string): string | undefined {
+    try {
+        return extractVideoId(url);
+    } catch {
+        return undefined;
+    }
+}
+
+export const youtubeExtractor: PlatformExtractor = {
+    name: 'youtube',
+    matches: isYouTubeUrl,
+    extract: (url, request) => extractYouTubeVideo(url, request.format, request.quality),
+    listFormats: (url, type) => type ? getFormatsByType(url, type) : listAvailableFormats(url),
+    getSupportedQualities,
+    getSupportedFormats,
+    sortFormats,
+    getVideoId,
+    normalizeUrl: normalizeYouTubeUrl,
+    matchesPlaylist: isYouTubePlaylistUrl,
+    extractPlaylist: extractYouTubePlaylist,
+    fetchSubtitles: fetchYouTubeSubtitles,
+    cookieDomain: 'youtube.com',
+    downloadHeaders: {
+        'Origin': 'https://www.youtube.com',
+        'Referer': 'https://www.youtube.com/'
+    }
+};
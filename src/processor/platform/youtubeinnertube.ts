@@ -0,0 +1,138 @@
+// ./src/processor/platform/youtubeinnertube.ts
+import { httpRequest } from '../http';
+import { ExtractionError, InvalidRequestError, upstreamHttpError } from '../errors';
+
+export type InnerTubeClientName = 'web' | 'android' | 'ios' | 'tv_embedded';
+
+interface InnerTubeClient {
+    /** Numeric ID sent as X-YouTube-Client-Name */
+    id: number;
+    /** Fields of context.client */
+    context: Record<string, string | number>;
+    userAgent?: string;
+    /** Embedded players need to name the page they are embedded in */
+    embedded?: boolean;
+    /** Formats come with ciphered signatures that need the player script */
+    requiresPlayer: boolean;
+}
+
+export interface InnerTubePlayerOptions {
+    /** From the player script, required by clients that need the player */
+    signatureTimestamp?: number;
+    /** INNERTUBE_API_KEY of the watch page */
+    apiKey?: string;
+    /** VISITOR_DATA of the watch page, ties the request to the page's session */
+    visitorData?: string;
+}
+
+// Client profiles of the official apps. Mobile clients return plain format
+// URLs, web and embedded clients need the player's signature transform.
+export const INNERTUBE_CLIENTS: Record<InnerTubeClientName, InnerTubeClient> = {
+    web: {
+        id: 1,
+        context: { clientName: 'WEB', clientVersion: '2.20240726.00.00' },
+        requiresPlayer: true
+    },
+    android: {
+        id: 3,
+        context: {
+            clientName: 'ANDROID',
+            clientVersion: '19.29.37',
+            androidSdkVersion: 30,
+            osName: 'Android',
+            osVersion: '11'
+        },
+        userAgent: 'com.google.android.youtube/19.29.37 (Linux; U; Android 11) gzip',
+        requiresPlayer: false
+    },
+    ios: {
+        id: 5,
+        context: {
+            clientName: 'IOS',
+            clientVersion: '19.29.1',
+            deviceMake: 'Apple',
+            deviceModel: 'iPhone16,2',
+            osName: 'iPhone',
+            osVersion: '17.5.1.21F90'
+        },
+        userAgent: 'com.google.ios.youtube/19.29.1 (iPhone16,2; U; CPU iOS 17_5_1 like Mac OS X;)',
+        requiresPlayer: false
+    },
+    tv_embedded: {
+        id: 85,
+        context: { clientName: 'TVHTML5_SIMPLY_EMBEDDED_PLAYER', clientVersion: '2.0', clientScreen: 'EMBED' },
+        embedded: true,
+        requiresPlayer: true
+    }
+};
+
+/**
+ * Whether a client's formats can only be used with the player script loaded
+ * @param name Client profile name
+ */
+export function clientRequiresPlayer(name: InnerTubeClientName): boolean {
+    return INNERTUBE_CLIENTS[name].requiresPlayer;
+}
+
+/**
+ * Request the player response of a video from the InnerTube player API
+ * @param videoId 11 character video ID
+ * @param name Client profile to identify as
+ * @param options Signature timestamp and session details of the watch page
+ * @returns Promise resolving to the parsed player response, shaped like ytInitialPlayerResponse
+ */
+export async function fetchInnerTubePlayer(
+    videoId: string,
+    name: InnerTubeClientName,
+    options: InnerTubePlayerOptions = {}
+): Promise<any> {
+    const client = INNERTUBE_CLIENTS[name];
+    if (!client) {
+        throw new InvalidRequestError(`Unknown InnerTube client '${name}'`);
+    }
+
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'Origin': 'https://www.youtube.com',
+        'X-YouTube-Client-Name': client.id.toString(),
+        'X-YouTube-Client-Version': client.context.clientVersion.toString()
+    };
+    if (client.userAgent) {
+        headers['User-Agent'] = client.userAgent;
+    }
+    if (options.visitorData) {
+        headers['X-Goog-Visitor-Id'] = options.visitorData;
+    }
+
+    const body = {
+        context: {
+            client: { ...client.context, hl: 'en', gl: 'US', visitorData: options.visitorData },
+            ...(client.embedded ? { thirdParty: { embedUrl: 'https://www.youtube.com/' } } : {})
+        },
+        videoId,
+        playbackContext: {
+            contentPlaybackContext: {
+                html5Preference: 'HTML5_PREF_WANTS',
+                signatureTimestamp: options.signatureTimestamp
+            }
+        },
+        contentCheckOk: true,
+        racyCheckOk: true
+    };
+
+    const endpoint = `https://www.youtube.com/youtubei/v1/player?prettyPrint=false${options.apiKey ? `&key=${options.apiKey}` : ''}`;
+    const response = await httpRequest('youtube', endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+        throw upstreamHttpError(response.status, `Player API request as ${name} client failed`);
+    }
+
+    try {
+        return await response.json();
+    } catch {
+        throw new ExtractionError(`Failed to parse player API response of ${name} client`);
+    }
+}
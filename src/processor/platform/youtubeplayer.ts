@@ -0,0 +1,411 @@
+// ./src/processor/platform/youtubeplayer.ts
+import { getQuickJS, shouldInterruptAfterDeadline, type QuickJSContext, type QuickJSHandle } from 'quickjs-emscripten';
+import { httpRequest } from '../http';
+
+type SignatureOperation =
+    | { op: 'reverse' }
+    | { op: 'splice'; arg: number }
+    | { op: 'swap'; arg: number };
+
+interface PlayerTransforms {
+    signature?: SignatureOperation[];
+    nTransform?: NTransform;
+    signatureTimestamp?: number;
+}
+
+interface NTransform {
+    run(n: string): string;
+    /** Free the QuickJS runtime holding the function */
+    dispose(): void;
+}
+
+export interface YouTubePlayer {
+    id: string;
+    /** Sent to the player API so it returns signatures this player can decipher */
+    signatureTimestamp?: number;
+    decipher(signature: string): string;
+    /** Returns the input unchanged when the player has no usable n-transform */
+    transformN(n: string): string;
+}
+
+// Derived transforms keyed by player ID. Promises are cached so concurrent
+// extractions for the same player share a single download.
+const transformCache = new Map<string, Promise<PlayerTransforms>>();
+
+// Each cached player holds a QuickJS runtime, YouTube only serves a few players at a time
+const MAX_CACHED_PLAYERS = 4;
+
+const DECIPHER_NAME_PATTERNS = [
+    /\b[cs]\s*&&\s*[adf]\.set\([^,]+\s*,\s*encodeURIComponent\s*\(\s*([a-zA-Z0-9$]+)\(/,
+    /\b[a-zA-Z0-9]+\s*&&\s*[a-zA-Z0-9]+\.set\([^,]+\s*,\s*encodeURIComponent\s*\(\s*([a-zA-Z0-9$]+)\(/,
+    /(?:\b|[^a-zA-Z0-9$])([a-zA-Z0-9$]{2,})\s*=\s*function\(\s*a\s*\)\s*\{\s*a\s*=\s*a\.split\(\s*""\s*\)/,
+    /([a-zA-Z0-9$]+)\s*=\s*function\(\s*a\s*\)\s*\{\s*a\s*=\s*a\.split\(\s*""\s*\)/
+];
+
+const N_FUNCTION_PATTERNS = [
+    /\.get\("n"\)\)&&\(b=([a-zA-Z0-9$]+)(?:\[(\d+)\])?\([a-zA-Z0-9]\)/,
+    /b=String\.fromCharCode\(110\),c=a\.get\(b\)\)&&\(c=([a-zA-Z0-9$]+)(?:\[(\d+)\])?\([a-zA-Z0-9]\)/,
+    /([a-zA-Z0-9$]+)(?:\[(\d+)\])?\([a-zA-Z0-9]\),[a-zA-Z0-9$]+\.set\((?:"n+"|[a-zA-Z0-9$]+),/
+];
+
+// Limits of the QuickJS runtime the n-transform runs in, a call is
+// interrupted once it takes longer than the timeout
+const N_TRANSFORM_TIMEOUT_MS = 500;
+const N_TRANSFORM_MEMORY_LIMIT = 32 * 1024 * 1024;
+
+/**
+ * Locate the player script URL in a watch page
+ * @param html Watch page HTML
+ * @returns Absolute base.js URL or null when not found
+ */
+export function extractPlayerUrl(html: string): string | null {
+    const match = html.match(/"jsUrl"\s*:\s*"([^"]+)"/) ||
+                  html.match(/"PLAYER_JS_URL"\s*:\s*"([^"]+)"/) ||
+                  html.match(/<script[^>]+src="([^"]+\/base\.js)"/);
+    if (!match) return null;
+
+    const path = match[1].replace(/\\\//g, '/');
+    return path.startsWith('http') ? path : `https://www.youtube.com${path}`;
+}
+
+function getPlayerId(playerUrl: string): string {
+    const match = playerUrl.match(/\/s\/player\/([\w-]+)\//);
+    return match ? match[1] : playerUrl;
+}
+
+/**
+ * Load the player script and derive its transforms, reusing cached results
+ * for players that have already been analysed
+ * @param playerUrl Absolute base.js URL
+ * @returns YouTubePlayer able to apply the player's transforms
+ */
+export async function loadPlayer(playerUrl: string): Promise<YouTubePlayer> {
+    const id = getPlayerId(playerUrl);
+
+    let transforms = transformCache.get(id);
+    if (!transforms) {
+        transforms = fetchPlayerTransforms(playerUrl);
+        transformCache.set(id, transforms);
+        // Don't keep failed lookups around, the next request should retry
+        transforms.catch(() => transformCache.delete(id));
+
+        // Maps keep insertion order, the first entry is the oldest player
+        if (transformCache.size > MAX_CACHED_PLAYERS) {
+            const [oldestId, oldest] = transformCache.entries().next().value!;
+            transformCache.delete(oldestId);
+            oldest.then(({ nTransform }) => nTransform?.dispose(), () => {});
+        }
+    }
+
+    const { signature, nTransform, signatureTimestamp } = await transforms;
+    return {
+        id,
+        signatureTimestamp,
+        decipher: (value: string) => {
+            if (!signature) {
+                throw new Error(`No signature transform available for player ${id}`);
+            }
+            return applySignatureOperations(value, signature);
+        },
+        transformN: (n: string) => nTransform ? nTransform.run(n) : n
+    };
+}
+
+async function fetchPlayerTransforms(playerUrl: string): Promise<PlayerTransforms> {
+    const response = await httpRequest('youtube', playerUrl);
+
+    if (!response.ok) {
+        throw new Error(`Failed to fetch player script: HTTP ${response.status}`);
+    }
+
+    const js = await response.text();
+    const transforms: PlayerTransforms = {};
+
+    // Each transform is optional so a layout change breaking one of them
+    // doesn't take the other down with it
+    try {
+        transforms.signature = parseSignatureOperations(js);
+    } catch (error) {
+        console.error('Failed to derive signature transform:', error);
+    }
+
+    try {
+        transforms.nTransform = await createNTransform(js);
+    } catch (error) {
+        console.error('Failed to derive n transform:', error);
+    }
+
+    const timestamp = js.match(/(?:signatureTimestamp|sts)\s*:\s*(\d{5})/);
+    if (timestamp) {
+        transforms.signatureTimestamp = parseInt(timestamp[1], 10);
+    }
+
+    if (!transforms.signature && !transforms.nTransform) {
+        throw new Error('No transforms could be derived from player script');
+    }
+
+    return transforms;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Derive the signature transform from the player source without executing it.
+ * The decipher function only ever calls three helpers (reverse, splice and
+ * swap), so the call sequence is translated into a list of operations.
+ */
+function parseSignatureOperations(js: string): SignatureOperation[] {
+    let functionName: string | undefined;
+    for (const pattern of DECIPHER_NAME_PATTERNS) {
+        const match = js.match(pattern);
+        if (match) {
+            functionName = match[1];
+            break;
+        }
+    }
+    if (!functionName) {
+        throw new Error('Could not find signature function in player script');
+    }
+
+    const bodyMatch = js.match(new RegExp(
+        `(?:function\\s+${escapeRegExp(functionName)}|[{;,\\s]${escapeRegExp(functionName)}\\s*=\\s*function)\\s*\\(\\s*([\\w$]+)\\s*\\)\\s*\\{([^}]+)\\}`
+    ));
+    if (!bodyMatch) {
+        throw new Error('Could not find signature function body in player script');
+    }
+
+    const [, argName, body] = bodyMatch;
+    const callPattern = new RegExp(
+        `([\\w$]+)(?:\\.([\\w$]+)|\\[["']([^"']+)["']\\])\\(\\s*${escapeRegExp(argName)}\\s*,\\s*(\\d+)\\s*\\)`,
+        'g'
+    );
+    const calls = [...body.matchAll(callPattern)];
+    if (calls.length === 0) {
+        throw new Error('Signature function has no transform calls');
+    }
+
+    const helpers = parseHelperObject(js, calls[0][1]);
+
+    return calls.map(call => {
+        const method = call[2] || call[3];
+        const arg = parseInt(call[4], 10);
+        const op = helpers.get(method);
+        if (!op) {
+            throw new Error(`Unknown signature helper '${method}'`);
+        }
+        return op === 'reverse' ? { op } : { op, arg };
+    });
+}
+
+function parseHelperObject(js: string, objectName: string): Map<string, SignatureOperation['op']> {
+    const objectMatch = js.match(new RegExp(
+        `var\\s+${escapeRegExp(objectName)}\\s*=\\s*\\{([\\s\\S]*?)\\};`
+    ));
+    if (!objectMatch) {
+        throw new Error(`Could not find signature helper object '${objectName}'`);
+    }
+
+    const helpers = new Map<string, SignatureOperation['op']>();
+    const methodPattern = /["']?([\w$]+)["']?\s*:\s*function\s*\([^)]*\)\s*\{([^}]*)\}/g;
+    for (const [, name, body] of objectMatch[1].matchAll(methodPattern)) {
+        if (body.includes('reverse')) {
+            helpers.set(name, 'reverse');
+        } else if (body.includes('splice')) {
+            helpers.set(name, 'splice');
+        } else {
+            helpers.set(name, 'swap');
+        }
+    }
+    return helpers;
+}
+
+function applySignatureOperations(signature: string, operations: SignatureOperation[]): string {
+    const chars = signature.split('');
+    for (const operation of operations) {
+        switch (operation.op) {
+            case 'reverse':
+                chars.reverse();
+                break;
+            case 'splice':
+                chars.splice(0, operation.arg);
+                break;
+            case 'swap': {
+                const index = operation.arg % chars.length;
+                const first = chars[0];
+                chars[0] = chars[index];
+                chars[index] = first;
+                break;
+            }
+        }
+    }
+    return chars.join('');
+}
+
+/**
+ * Build the 'n' parameter transform. Unlike the signature function this one
+ * is too large to translate, so its source is extracted and evaluated in a
+ * QuickJS runtime compiled to WebAssembly. The runtime has no access to the
+ * network, the file system or the server's globals, is capped at
+ * N_TRANSFORM_MEMORY_LIMIT and interrupts calls running past
+ * N_TRANSFORM_TIMEOUT_MS. It is kept for the player's lifetime and reused
+ * for every call.
+ */
+async function createNTransform(js: string): Promise<NTransform> {
+    const functionName = findNFunctionName(js);
+    const functionCode = extractFunctionCode(js, functionName)
+        // Drop the guard that bails out when a player global is undefined
+        .replace(/;\s*if\s*\(\s*typeof\s+[a-zA-Z0-9_$]+\s*===?\s*(?:"undefined"|'undefined'|[a-zA-Z0-9_$]+\[\d+\])\s*\)\s*return\s+[a-zA-Z0-9_$]+\s*;/g, ';');
+
+    const runtime = (await getQuickJS()).newRuntime();
+    runtime.setMemoryLimit(N_TRANSFORM_MEMORY_LIMIT);
+    const context = runtime.newContext();
+    let fn: QuickJSHandle | undefined;
+    const dispose = () => {
+        fn?.dispose();
+        context.dispose();
+        runtime.dispose();
+    };
+
+    // All formats of a video share the same n value, remember the last few
+    const results = new Map<string, string>();
+    const transform: NTransform = {
+        run(n: string) {
+            const cached = results.get(n);
+            if (cached) return cached;
+            if (!fn?.alive) {
+                throw new Error('n transform was released with its player');
+            }
+
+            runtime.setInterruptHandler(shouldInterruptAfterDeadline(Date.now() + N_TRANSFORM_TIMEOUT_MS));
+            const output = callNTransform(context, fn, n);
+            if (results.size >= 100) {
+                results.clear();
+            }
+            results.set(n, output);
+            return output;
+        },
+        dispose
+    };
+
+    try {
+        runtime.setInterruptHandler(shouldInterruptAfterDeadline(Date.now() + N_TRANSFORM_TIMEOUT_MS));
+        fn = context.unwrapResult(context.evalCode(`(${functionCode})`));
+        // Try the function once so a broken one is dropped with the player
+        // instead of failing on every video
+        transform.run('AAAAAAAAAAAAAAAA');
+    } catch (error) {
+        dispose();
+        throw error;
+    }
+    return transform;
+}
+
+function callNTransform(context: QuickJSContext, fn: QuickJSHandle, input: string): string {
+    const argument = context.newString(input);
+    const result = context.callFunction(fn, context.undefined, argument);
+    argument.dispose();
+
+    if (result.error) {
+        const error = context.dump(result.error);
+        result.error.dispose();
+        throw new Error(`n transform failed: ${error?.message ?? error}`);
+    }
+    const output = context.dump(result.value);
+    result.value.dispose();
+
+    if (typeof output !== 'string') {
+        throw new Error(`n transform returned ${typeof output}`);
+    }
+    // The player signals internal failures by returning the exception text
+    if (output.startsWith('enhanced_except_')) {
+        throw new Error('n transform returned an invalid result');
+    }
+    return output;
+}
+
+function findNFunctionName(js: string): string {
+    for (const pattern of N_FUNCTION_PATTERNS) {
+        const match = js.match(pattern);
+        if (!match) continue;
+
+        const [, name, index] = match;
+        if (index === undefined) return name;
+
+        // The call goes through an array of functions, e.g. Xyz[0](a)
+        const arrayMatch = js.match(new RegExp(`var\\s+${escapeRegExp(name)}\\s*=\\s*\\[([^\\]]+)\\]`));
+        const entry = arrayMatch?.[1].split(',')[parseInt(index, 10)]?.trim();
+        if (entry) return entry;
+    }
+    throw new Error('Could not find n function in player script');
+}
+
+function extractFunctionCode(js: string, functionName: string): string {
+    const name = escapeRegExp(functionName);
+    const match = new RegExp(`(?:function\\s+${name}|[{;,\\s]${name}\\s*=\\s*function)\\s*\\(([^)]*)\\)\\s*\\{`).exec(js);
+    if (!match) {
+        throw new Error(`Could not find function '${functionName}' in player script`);
+    }
+
+    const bodyStart = match.index + match[0].length - 1;
+    const bodyEnd = findMatchingBrace(js, bodyStart);
+    return `function(${match[1]})${js.slice(bodyStart, bodyEnd + 1)}`;
+}
+
+/**
+ * Find the brace closing the block opened at `start`, skipping over string,
+ * template and regular expression literals
+ */
+function findMatchingBrace(js: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < js.length; i++) {
+        const char = js[i];
+
+        if (char === '"' || char === "'" || char === '`') {
+            i = skipLiteral(js, i, char);
+        } else if (char === '/' && js[i + 1] !== '/' && js[i + 1] !== '*' && isRegexStart(js, i)) {
+            i = skipRegex(js, i);
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    throw new Error('Unbalanced braces in player function');
+}
+
+function skipLiteral(js: string, start: number, quote: string): number {
+    for (let i = start + 1; i < js.length; i++) {
+        if (js[i] === '\\') {
+            i++;
+        } else if (js[i] === quote) {
+            return i;
+        }
+    }
+    return js.length;
+}
+
+function isRegexStart(js: string, index: number): boolean {
+    let i = index - 1;
+    while (i >= 0 && /\s/.test(js[i])) i--;
+    return i < 0 || '(,=:[!&|?{};+-*%<>~^'.includes(js[i]);
+}
+
+function skipRegex(js: string, start: number): number {
+    let inClass = false;
+    for (let i = start + 1; i < js.length; i++) {
+        const char = js[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '[') {
+            inClass = true;
+        } else if (char === ']') {
+            inClass = false;
+        } else if (char === '/' && !inClass) {
+            return i;
+        }
+    }
+    return js.length;
+}
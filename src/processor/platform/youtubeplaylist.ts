@@ -0,0 +1,343 @@
+// ./src/processor/platform/youtubeplaylist.ts
+import type { PlaylistEntry, PlaylistPage } from '../extractplaylist';
+import type { PlaylistOptions } from './registry';
+import { httpRequest } from '../http';
+import {
+    ExtractionError,
+    InvalidRequestError,
+    InvalidUrlError,
+    VideoUnavailableError,
+    upstreamHttpError,
+    wrapError
+} from '../errors';
+
+type FeedTarget =
+    | { kind: 'playlist'; id: string; url: string }
+    | { kind: 'channel'; id: string; url: string };
+
+// Position in a feed, handed to clients as an opaque continuation token
+interface Cursor {
+    id: string;
+    title: string;
+    /** InnerTube continuation token of the chunk to read, null for the initial page */
+    token: string | null;
+    /** Entries of that chunk already returned */
+    skip: number;
+    /** Index given to the next entry */
+    index: number;
+    apiKey?: string;
+    clientVersion: string;
+}
+
+interface Chunk {
+    entries: PlaylistEntry[];
+    next?: string;
+}
+
+const DEFAULT_CLIENT_VERSION = '2.20240101.00.00';
+
+// Stop following continuations after this many chunks per request
+const MAX_CHUNKS = 20;
+
+// Channel tabs that list videos, anything else is redirected to /videos
+const CHANNEL_TABS = ['videos', 'shorts', 'streams'];
+
+const CHANNEL_PATH = /^\/(@[^/]+|channel\/[^/]+|c\/[^/]+|user\/[^/]+)(?:\/([^/]+))?\/?$/;
+
+/**
+ * Recognise playlist (`/playlist?list=`) and channel (`/@handle`, `/channel/ID`,
+ * `/c/name`, `/user/name`) URLs. Watch URLs with a `list` parameter are videos.
+ */
+export function isYouTubePlaylistUrl(url: string): boolean {
+    return parseYouTubeFeedUrl(url) !== undefined;
+}
+
+/**
+ * Parse a playlist or channel URL into its target and the URL listing it
+ * @param url Any youtube.com URL
+ * @returns FeedTarget, undefined for other URLs. Channel IDs are the handle
+ * ('@name'), the channel ID ('UC...') or the legacy 'c/name' / 'user/name' path
+ */
+export function parseYouTubeFeedUrl(url: string): FeedTarget | undefined {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return undefined;
+    }
+    if (!/(^|\.)youtube\.com$/.test(parsed.hostname)) return undefined;
+
+    const list = parsed.searchParams.get('list');
+    if (parsed.pathname === '/playlist' && list) {
+        return { kind: 'playlist', id: list, url: `https://www.youtube.com/playlist?list=${encodeURIComponent(list)}` };
+    }
+
+    const channel = parsed.pathname.match(CHANNEL_PATH);
+    if (channel) {
+        const tab = channel[2] && CHANNEL_TABS.includes(channel[2]) ? channel[2] : 'videos';
+        return {
+            kind: 'channel',
+            id: channel[1].replace(/^channel\//, ''),
+            url: `https://www.youtube.com/${channel[1]}/${tab}`
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * List one page of a playlist or channel. Long feeds are read in chunks
+ * following InnerTube continuation tokens until `limit` entries are collected.
+ * @param url Playlist or channel URL
+ * @param options Page size and continuation from the previous page
+ * @returns Promise<PlaylistPage>
+ */
+export async function extractYouTubePlaylist(url: string, options: PlaylistOptions): Promise<PlaylistPage> {
+    const target = parseYouTubeFeedUrl(url);
+    if (!target) {
+        throw new InvalidUrlError('Invalid YouTube playlist or channel URL');
+    }
+
+    try {
+        let state: Cursor;
+        let initialChunk: Chunk | undefined;
+        if (options.continuation) {
+            state = decodeCursor(options.continuation);
+        } else {
+            const initial = await fetchInitialPage(target);
+            initialChunk = initial.chunk;
+            state = {
+                id: initial.id,
+                title: initial.title,
+                token: null,
+                skip: 0,
+                index: 1,
+                apiKey: initial.apiKey,
+                clientVersion: initial.clientVersion
+            };
+        }
+
+        const entries: PlaylistEntry[] = [];
+        let chunkToken = state.token;
+        let skip = state.skip;
+        let index = state.index;
+        let continuation: string | undefined;
+
+        for (let chunks = 0; chunks < MAX_CHUNKS; chunks++) {
+            let chunk: Chunk;
+            if (chunkToken !== null) {
+                chunk = await fetchContinuation(chunkToken, state);
+            } else {
+                // Resuming inside the first chunk means reading the page again
+                initialChunk = initialChunk ?? (await fetchInitialPage(target)).chunk;
+                chunk = initialChunk;
+            }
+
+            const available = chunk.entries.slice(skip);
+            const taken = available.slice(0, options.limit - entries.length);
+            for (const entry of taken) {
+                entries.push({ ...entry, index: entry.index || index });
+                index = entries[entries.length - 1].index + 1;
+            }
+
+            if (taken.length < available.length) {
+                // Stopped part way through this chunk, resume inside it
+                continuation = encodeCursor({ ...state, token: chunkToken, skip: skip + taken.length, index });
+                break;
+            }
+            if (!chunk.next) break;
+
+            chunkToken = chunk.next;
+            skip = 0;
+            if (entries.length >= options.limit || chunks === MAX_CHUNKS - 1) {
+                continuation = encodeCursor({ ...state, token: chunkToken, skip: 0, index });
+                break;
+            }
+        }
+
+        return {
+            id: state.id,
+            title: state.title,
+            kind: target.kind,
+            entries,
+            continuation
+        };
+    } catch (error) {
+        throw wrapError(error, 'Failed to extract YouTube playlist');
+    }
+}
+
+async function fetchInitialPage(target: FeedTarget): Promise<{
+    id: string;
+    title: string;
+    apiKey?: string;
+    clientVersion: string;
+    chunk: Chunk;
+}> {
+    const response = await httpRequest('youtube', target.url, {
+        headers: { 'Accept-Language': 'en-US,en;q=0.9' }
+    });
+    if (!response.ok) {
+        throw upstreamHttpError(response.status, 'Failed to fetch playlist page');
+    }
+
+    const html = await response.text();
+    const dataMatch = html.match(/ytInitialData\s*=\s*({.+?})\s*;\s*<\/script>/s);
+    if (!dataMatch) {
+        throw new ExtractionError('Could not find playlist data on the page');
+    }
+
+    let data: any;
+    try {
+        data = JSON.parse(dataMatch[1]);
+    } catch {
+        throw new ExtractionError('Failed to parse playlist data');
+    }
+
+    const alert = data.alerts?.[0]?.alertRenderer;
+    if (alert?.type === 'ERROR') {
+        throw new VideoUnavailableError(readText(alert.text) || 'Playlist does not exist');
+    }
+
+    const playlistMetadata = data.metadata?.playlistMetadataRenderer;
+    const channelMetadata = data.metadata?.channelMetadataRenderer;
+
+    return {
+        id: target.kind === 'playlist' ? target.id : channelMetadata?.externalId ?? target.url,
+        title: playlistMetadata?.title ?? channelMetadata?.title ?? 'Untitled',
+        apiKey: html.match(/"INNERTUBE_API_KEY"\s*:\s*"([^"]+)"/)?.[1],
+        clientVersion: html.match(/"INNERTUBE_CLIENT_VERSION"\s*:\s*"([^"]+)"/)?.[1] ?? DEFAULT_CLIENT_VERSION,
+        chunk: collectChunk(data)
+    };
+}
+
+async function fetchContinuation(token: string, cursor: Cursor): Promise<Chunk> {
+    const endpoint = `https://www.youtube.com/youtubei/v1/browse?prettyPrint=false${cursor.apiKey ? `&key=${cursor.apiKey}` : ''}`;
+    const response = await httpRequest('youtube', endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            context: {
+                client: { clientName: 'WEB', clientVersion: cursor.clientVersion, hl: 'en', gl: 'US' }
+            },
+            continuation: token
+        })
+    });
+    if (!response.ok) {
+        throw upstreamHttpError(response.status, 'Failed to fetch playlist continuation');
+    }
+
+    return collectChunk(await response.json());
+}
+
+/**
+ * Walk an InnerTube response and collect video entries in document order
+ * along with the continuation token for the next chunk
+ */
+function collectChunk(data: any): Chunk {
+    const entries: PlaylistEntry[] = [];
+    const seen = new Set<string>();
+    let next: string | undefined;
+
+    const add = (entry: PlaylistEntry | undefined) => {
+        if (entry && !seen.has(entry.id)) {
+            seen.add(entry.id);
+            entries.push(entry);
+        }
+    };
+
+    const walk = (node: any) => {
+        if (Array.isArray(node)) {
+            node.forEach(walk);
+            return;
+        }
+        if (!node || typeof node !== 'object') return;
+
+        if (node.playlistVideoRenderer) {
+            add(fromPlaylistVideo(node.playlistVideoRenderer));
+        } else if (node.videoRenderer || node.gridVideoRenderer) {
+            add(fromVideo(node.videoRenderer || node.gridVideoRenderer));
+        } else if (node.reelItemRenderer) {
+            add(fromVideo({ ...node.reelItemRenderer, title: node.reelItemRenderer.headline }));
+        } else if (node.continuationItemRenderer) {
+            next = next ?? findContinuationToken(node.continuationItemRenderer);
+        } else {
+            Object.values(node).forEach(walk);
+        }
+    };
+
+    walk(data);
+    return { entries, next };
+}
+
+function fromPlaylistVideo(renderer: any): PlaylistEntry | undefined {
+    if (!renderer.videoId) return undefined;
+    return {
+        id: renderer.videoId,
+        url: `https://www.youtube.com/watch?v=${renderer.videoId}`,
+        title: readText(renderer.title) || 'Untitled',
+        duration: parseInt(renderer.lengthSeconds, 10) || parseDuration(readText(renderer.lengthText)),
+        thumbnail: pickThumbnail(renderer.thumbnail),
+        index: parseInt(readText(renderer.index), 10) || 0
+    };
+}
+
+function fromVideo(renderer: any): PlaylistEntry | undefined {
+    if (!renderer.videoId) return undefined;
+    return {
+        id: renderer.videoId,
+        url: `https://www.youtube.com/watch?v=${renderer.videoId}`,
+        title: readText(renderer.title) || 'Untitled',
+        duration: parseDuration(readText(renderer.lengthText)),
+        thumbnail: pickThumbnail(renderer.thumbnail),
+        index: 0
+    };
+}
+
+function findContinuationToken(node: any): string | undefined {
+    if (!node || typeof node !== 'object') return undefined;
+    if (typeof node.continuationCommand?.token === 'string') return node.continuationCommand.token;
+    for (const value of Object.values(node)) {
+        const token = findContinuationToken(value);
+        if (token) return token;
+    }
+    return undefined;
+}
+
+// InnerTube text is either { simpleText } or { runs: [{ text }] }
+function readText(text: any): string {
+    if (!text) return '';
+    if (typeof text === 'string') return text;
+    if (text.simpleText) return text.simpleText;
+    return text.runs?.map((run: any) => run.text).join('') ?? '';
+}
+
+// '1:02:03' -> 3723
+function parseDuration(text: string): number {
+    if (!/^\d+(:\d+)*$/.test(text.trim())) return 0;
+    return text.trim().split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+}
+
+function pickThumbnail(thumbnail: any): string | undefined {
+    const thumbnails = thumbnail?.thumbnails;
+    return thumbnails?.length ? thumbnails[thumbnails.length - 1].url : undefined;
+}
+
+function encodeCursor(cursor: Cursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(token: string): Cursor {
+    try {
+        const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+        if (typeof cursor.id === 'string' && typeof cursor.title === 'string' &&
+            (cursor.token === null || typeof cursor.token === 'string') &&
+            Number.isInteger(cursor.skip) && Number.isInteger(cursor.index) &&
+            typeof cursor.clientVersion === 'string') {
+            return cursor;
+        }
+    } catch {
+        // Fall through to the error below
+    }
+    throw new InvalidRequestError('Invalid continuation token');
+}
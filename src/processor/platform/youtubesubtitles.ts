@@ -0,0 +1,132 @@
+// ./src/processor/platform/youtubesubtitles.ts
+import type { SubtitleTrack } from '../extractvideo';
+import type { SubtitleCue, SubtitleDocument } from '../extractsubtitles';
+import type { SubtitleOptions } from './registry';
+import { httpRequest } from '../http';
+import { ExtractionError, SubtitlesUnavailableError, upstreamHttpError } from '../errors';
+
+// Entry of captions.playerCaptionsTracklistRenderer.captionTracks
+interface CaptionTrack {
+    baseUrl: string;
+    languageCode: string;
+    name?: { simpleText?: string; runs?: { text: string }[] };
+    /** 'asr' for automatic speech recognition captions */
+    kind?: string;
+    isTranslatable?: boolean;
+}
+
+/**
+ * List the subtitle tracks of a player response
+ * @param playerResponse Parsed ytInitialPlayerResponse
+ * @returns SubtitleTrack[], empty when the video has no captions
+ */
+export function listYouTubeSubtitles(playerResponse: any): SubtitleTrack[] {
+    return readCaptionTracks(playerResponse).map(track => ({
+        language: track.languageCode,
+        name: readName(track),
+        autoGenerated: track.kind === 'asr',
+        translatable: track.isTranslatable === true
+    }));
+}
+
+/**
+ * Pick a caption track of a player response and download its cues
+ * @param playerResponse Parsed ytInitialPlayerResponse
+ * @param options Language, kind and translation target
+ * @returns Promise<SubtitleDocument>
+ */
+export async function fetchYouTubeCaptionTrack(playerResponse: any, options: SubtitleOptions): Promise<SubtitleDocument> {
+    const tracks = readCaptionTracks(playerResponse);
+    if (tracks.length === 0) {
+        throw new SubtitlesUnavailableError('This video has no subtitles');
+    }
+
+    const track = pickTrack(tracks, options);
+    const url = new URL(track.baseUrl, 'https://www.youtube.com');
+    url.searchParams.set('fmt', 'json3');
+
+    if (options.translateTo) {
+        const targets: string[] = (playerResponse.captions.playerCaptionsTracklistRenderer.translationLanguages ?? [])
+            .map((language: any) => language.languageCode);
+        if (!track.isTranslatable || (targets.length > 0 && !targets.includes(options.translateTo))) {
+            throw new SubtitlesUnavailableError(
+                `The ${track.languageCode} subtitles can't be translated to '${options.translateTo}'`
+            );
+        }
+        url.searchParams.set('tlang', options.translateTo);
+    }
+
+    const response = await httpRequest('youtube', url.toString());
+    if (!response.ok) {
+        throw upstreamHttpError(response.status, 'Failed to fetch subtitles');
+    }
+
+    let data: any;
+    try {
+        data = await response.json();
+    } catch {
+        throw new ExtractionError('Failed to parse subtitles');
+    }
+
+    return {
+        language: options.translateTo ?? track.languageCode,
+        name: readName(track),
+        autoGenerated: track.kind === 'asr',
+        translatedFrom: options.translateTo ? track.languageCode : undefined,
+        cues: parseJson3(data)
+    };
+}
+
+function readCaptionTracks(playerResponse: any): CaptionTrack[] {
+    const tracks = playerResponse?.captions?.playerCaptionsTracklistRenderer?.captionTracks;
+    return Array.isArray(tracks) ? tracks.filter((track: any) => track.baseUrl && track.languageCode) : [];
+}
+
+/**
+ * Choose the track for a language, uploaded subtitles before automatic
+ * captions unless the caller asked for one kind. 'en' also matches 'en-GB'.
+ */
+function pickTrack(tracks: CaptionTrack[], options: SubtitleOptions): CaptionTrack {
+    const ofKind = tracks.filter(track => options.autoGenerated === undefined ||
+        (track.kind === 'asr') === options.autoGenerated);
+
+    let candidates = ofKind;
+    if (options.language) {
+        const language = options.language.toLowerCase();
+        const exact = ofKind.filter(track => track.languageCode.toLowerCase() === language);
+        candidates = exact.length > 0
+            ? exact
+            : ofKind.filter(track => track.languageCode.toLowerCase().split('-')[0] === language.split('-')[0]);
+    }
+
+    const track = candidates.find(candidate => candidate.kind !== 'asr') ?? candidates[0];
+    if (!track) {
+        const available = tracks
+            .map(candidate => candidate.kind === 'asr' ? `${candidate.languageCode} (auto)` : candidate.languageCode)
+            .join(', ');
+        const kind = options.autoGenerated === true ? 'automatic captions' : options.autoGenerated === false ? 'uploaded subtitles' : 'subtitles';
+        throw new SubtitlesUnavailableError(
+            `No ${kind}${options.language ? ` in '${options.language}'` : ''}, available: ${available}`
+        );
+    }
+    return track;
+}
+
+// json3 events carry text segments, window and styling events have none
+function parseJson3(data: any): SubtitleCue[] {
+    const cues: SubtitleCue[] = [];
+    for (const event of data?.events ?? []) {
+        if (!Array.isArray(event.segs)) continue;
+
+        const text = event.segs.map((segment: any) => segment.utf8 ?? '').join('').trim();
+        if (!text) continue;
+
+        const start = event.tStartMs ?? 0;
+        cues.push({ start, end: start + (event.dDurationMs ?? 0), text });
+    }
+    return cues;
+}
+
+function readName(track: CaptionTrack): string {
+    return track.name?.simpleText ?? track.name?.runs?.map(run => run.text).join('') ?? track.languageCode;
+}
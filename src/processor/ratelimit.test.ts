@@ -0,0 +1,84 @@
+// ./src/processor/ratelimit.test.ts
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { checkRouteLimit, configureRateLimits, createRateLimiter, getRateLimitOptions } from './ratelimit';
+
+describe('createRateLimiter', () => {
+    beforeEach(() => setSystemTime(new Date('2025-01-01T00:00:00Z')));
+    afterEach(() => setSystemTime());
+
+    const advance = (seconds: number) => setSystemTime(new Date(Date.now() + seconds * 1000));
+
+    test('allows a burst up to the capacity', () => {
+        const limiter = createRateLimiter({ capacity: 3, refillPerSecond: 1 });
+        expect([1, 2, 3, 4].map(() => limiter.consume('client').allowed)).toEqual([true, true, true, false]);
+    });
+
+    test('reports remaining tokens and when to retry', () => {
+        const limiter = createRateLimiter({ capacity: 2, refillPerSecond: 0.5 });
+        expect(limiter.consume('client')).toEqual({ allowed: true, limit: 2, remaining: 1, reset: 2, retryAfter: 0 });
+        limiter.consume('client');
+        expect(limiter.consume('client')).toEqual({ allowed: false, limit: 2, remaining: 0, reset: 4, retryAfter: 2 });
+    });
+
+    test('refills over time without exceeding the capacity', () => {
+        const limiter = createRateLimiter({ capacity: 2, refillPerSecond: 1 });
+        limiter.consume('client');
+        limiter.consume('client');
+        expect(limiter.consume('client').allowed).toBe(false);
+
+        advance(1);
+        expect(limiter.consume('client').allowed).toBe(true);
+        expect(limiter.consume('client').allowed).toBe(false);
+
+        advance(60);
+        expect(limiter.consume('client').remaining).toBe(1);
+    });
+
+    test('keeps a bucket per key', () => {
+        const limiter = createRateLimiter({ capacity: 1, refillPerSecond: 1 });
+        expect(limiter.consume('a').allowed).toBe(true);
+        expect(limiter.consume('a').allowed).toBe(false);
+        expect(limiter.consume('b').allowed).toBe(true);
+    });
+
+    test('charges the given cost', () => {
+        const limiter = createRateLimiter({ capacity: 5, refillPerSecond: 1 });
+        expect(limiter.consume('client', 4)).toMatchObject({ allowed: true, remaining: 1 });
+        expect(limiter.consume('client', 2)).toMatchObject({ allowed: false, remaining: 1, retryAfter: 1 });
+    });
+});
+
+describe('checkRouteLimit', () => {
+    const defaults = { ...getRateLimitOptions() };
+    beforeEach(() => configureRateLimits({
+        enabled: true,
+        routes: {
+            'POST /jobs': { capacity: 1, refillPerSecond: 0.1 },
+            'GET /jobs': { capacity: 2, refillPerSecond: 1 },
+            'GET /jobs/:id': { capacity: 1, refillPerSecond: 1 }
+        }
+    }));
+    afterEach(() => configureRateLimits(defaults));
+
+    test('keeps a bucket per method', () => {
+        expect(checkRouteLimit('GET', '/jobs', 'client')).toMatchObject({ allowed: true, limit: 2 });
+        expect(checkRouteLimit('POST', '/jobs', 'client')).toMatchObject({ allowed: true, limit: 1 });
+        expect(checkRouteLimit('POST', '/jobs', 'client')?.allowed).toBe(false);
+        expect(checkRouteLimit('GET', '/jobs', 'client')?.allowed).toBe(true);
+    });
+
+    test('matches route templates, trailing slashes and HEAD', () => {
+        expect(checkRouteLimit('GET', '/jobs/:id/', 'client')?.allowed).toBe(true);
+        expect(checkRouteLimit('head', '/jobs/:id', 'client')?.allowed).toBe(false);
+    });
+
+    test('leaves routes without a rule unlimited', () => {
+        expect(checkRouteLimit('DELETE', '/jobs/:id', 'client')).toBeUndefined();
+        expect(checkRouteLimit('GET', '/support', 'client')).toBeUndefined();
+    });
+
+    test('limits nothing when disabled', () => {
+        configureRateLimits({ enabled: false });
+        expect(checkRouteLimit('POST', '/jobs', 'client')).toBeUndefined();
+    });
+});
@@ -0,0 +1,183 @@
+// ./src/processor/ratelimit.ts
+import { config } from '../config';
+import { RateLimitedError } from './errors';
+
+export interface RateLimitRule {
+    /** Maximum burst size */
+    capacity: number;
+    /** Tokens added back per second */
+    refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    /** Seconds until the bucket is full again */
+    reset: number;
+    /** Seconds until the next token is available, 0 when allowed */
+    retryAfter: number;
+}
+
+export interface RateLimiter {
+    consume(key: string, cost?: number): RateLimitResult;
+}
+
+export interface RateLimitOptions {
+    enabled: boolean;
+    /** Per client IP limits keyed by method and route template, e.g. 'GET /jobs/:id' */
+    routes: Record<string, RateLimitRule>;
+    /** Global limits on requests we send to each platform */
+    outbound: Record<string, RateLimitRule>;
+    /** Longest an extraction waits for an outbound slot before failing */
+    maxOutboundWait: number;
+    /** Read the client IP from X-Forwarded-For, only enable behind a trusted proxy */
+    trustProxy: boolean;
+}
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+// Idle buckets are pruned once the map grows past this
+const MAX_BUCKETS = 10000;
+
+/**
+ * Create a token bucket limiter with one bucket per key
+ * @param rule Bucket capacity and refill rate
+ * @returns RateLimiter
+ */
+export function createRateLimiter(rule: RateLimitRule): RateLimiter {
+    const buckets = new Map<string, Bucket>();
+
+    const refill = (bucket: Bucket, now: number) => {
+        const elapsed = (now - bucket.updatedAt) / 1000;
+        bucket.tokens = Math.min(rule.capacity, bucket.tokens + elapsed * rule.refillPerSecond);
+        bucket.updatedAt = now;
+    };
+
+    const prune = (now: number) => {
+        for (const [key, bucket] of buckets) {
+            refill(bucket, now);
+            if (bucket.tokens >= rule.capacity) {
+                buckets.delete(key);
+            }
+        }
+    };
+
+    return {
+        consume(key, cost = 1) {
+            const now = Date.now();
+            let bucket = buckets.get(key);
+            if (!bucket) {
+                if (buckets.size >= MAX_BUCKETS) prune(now);
+                bucket = { tokens: rule.capacity, updatedAt: now };
+                buckets.set(key, bucket);
+            } else {
+                refill(bucket, now);
+            }
+
+            const allowed = bucket.tokens >= cost;
+            if (allowed) {
+                bucket.tokens -= cost;
+            }
+
+            return {
+                allowed,
+                limit: rule.capacity,
+                remaining: Math.floor(bucket.tokens),
+                reset: Math.ceil((rule.capacity - bucket.tokens) / rule.refillPerSecond),
+                retryAfter: allowed ? 0 : Math.ceil((cost - bucket.tokens) / rule.refillPerSecond)
+            };
+        }
+    };
+}
+
+const options: RateLimitOptions = {
+    enabled: config.rateLimit.enabled,
+    routes: {
+        'GET /extract': { capacity: 30, refillPerSecond: 0.5 },
+        'POST /extract/batch': { capacity: 5, refillPerSecond: 0.05 },
+        'GET /formats': { capacity: 30, refillPerSecond: 0.5 },
+        'GET /manifest': { capacity: 30, refillPerSecond: 0.5 },
+        'GET /playlist': { capacity: 10, refillPerSecond: 0.1 },
+        'GET /subtitles': { capacity: 30, refillPerSecond: 0.5 },
+        'GET /thumbnail': { capacity: 60, refillPerSecond: 1 },
+        'GET /resolve': { capacity: 60, refillPerSecond: 1 },
+        'GET /download': { capacity: 10, refillPerSecond: 0.1 },
+        'POST /jobs': { capacity: 10, refillPerSecond: 0.1 },
+        // Polling job state is cheap, fetching files and queueing work isn't
+        'GET /jobs': { capacity: 60, refillPerSecond: 1 },
+        'GET /jobs/:id': { capacity: 60, refillPerSecond: 1 },
+        'GET /jobs/:id/file': { capacity: 10, refillPerSecond: 0.1 },
+        'POST /jobs/:id/cancel': { capacity: 30, refillPerSecond: 0.5 },
+        'POST /jobs/:id/retry': { capacity: 10, refillPerSecond: 0.1 },
+        'DELETE /jobs/:id': { capacity: 30, refillPerSecond: 0.5 }
+    },
+    outbound: {
+        youtube: { capacity: 20, refillPerSecond: 2 },
+        tiktok: { capacity: 10, refillPerSecond: 1 },
+        vimeo: { capacity: 10, refillPerSecond: 1 },
+        twitter: { capacity: 10, refillPerSecond: 1 },
+        reddit: { capacity: 10, refillPerSecond: 1 }
+    },
+    maxOutboundWait: config.rateLimit.maxOutboundWait,
+    trustProxy: config.rateLimit.trustProxy
+};
+
+let routeLimiters = new Map<string, RateLimiter>();
+let outboundLimiters = new Map<string, RateLimiter>();
+
+function buildLimiters(rules: Record<string, RateLimitRule>): Map<string, RateLimiter> {
+    return new Map(Object.entries(rules).map(([name, rule]) => [name, createRateLimiter(rule)]));
+}
+
+export function configureRateLimits(overrides: Partial<RateLimitOptions>): void {
+    Object.assign(options, overrides);
+    routeLimiters = buildLimiters(options.routes);
+    outboundLimiters = buildLimiters(options.outbound);
+}
+
+configureRateLimits({});
+
+export function getRateLimitOptions(): Readonly<RateLimitOptions> {
+    return options;
+}
+
+/**
+ * Consume a token for a client request
+ * @param method HTTP method, HEAD shares the GET rule
+ * @param route Route template as registered, e.g. '/jobs/:id'; routes without a rule are not limited
+ * @param clientIp Client address used as bucket key
+ * @returns RateLimitResult, or undefined when the route isn't limited
+ */
+export function checkRouteLimit(method: string, route: string, clientIp: string): RateLimitResult | undefined {
+    if (!options.enabled) return undefined;
+    const upperMethod = method.toUpperCase();
+    const key = `${upperMethod === 'HEAD' ? 'GET' : upperMethod} ${route.replace(/\/+$/, '') || '/'}`;
+    return routeLimiters.get(key)?.consume(clientIp);
+}
+
+/**
+ * Wait for an outbound request slot for a platform. Callers are queued by
+ * sleeping until the bucket refills, and fail once that would take longer
+ * than maxOutboundWait seconds.
+ * @param platform Platform name as registered in the extractor registry
+ */
+export async function acquireOutboundSlot(platform: string): Promise<void> {
+    const limiter = outboundLimiters.get(platform);
+    if (!options.enabled || !limiter) return;
+
+    const deadline = Date.now() + options.maxOutboundWait * 1000;
+    for (;;) {
+        const result = limiter.consume(platform);
+        if (result.allowed) return;
+
+        const waitMs = result.retryAfter * 1000;
+        if (Date.now() + waitMs > deadline) {
+            throw new RateLimitedError(`Too many requests to ${platform}, try again later`, result.retryAfter);
+        }
+        await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+}
@@ -0,0 +1,48 @@
+// ./src/processor/resolveurl.ts
+import { findExtractor, getExtractors, type NormalizedUrl } from './platform';
+import { InvalidRequestError, InvalidUrlError, UnsupportedPlatformError, wrapError } from './errors';
+
+export interface ResolvedUrl extends NormalizedUrl {
+    /** True when the URL was a short link that had to be followed */
+    shortLink: boolean;
+}
+
+/**
+ * Map a link to the canonical URL of its video, playlist, channel, profile or
+ * hashtag. Known URL variants are normalized offline, short links are
+ * followed only when they can't be.
+ * @param url Media URL
+ * @returns Promise<ResolvedUrl>
+ */
+export async function resolveUrl(url: string): Promise<ResolvedUrl> {
+    if (!url) {
+        throw new InvalidRequestError('URL is required');
+    }
+
+    try {
+        const extractor = findExtractor(url);
+        if (!extractor?.normalizeUrl) {
+            const supported = getExtractors()
+                .filter(candidate => candidate.normalizeUrl)
+                .map(candidate => candidate.name)
+                .join(', ');
+            throw new UnsupportedPlatformError(`Unsupported platform. URLs can be resolved for: ${supported}`);
+        }
+
+        const normalized = extractor.normalizeUrl(url);
+        if (normalized) {
+            return { ...normalized, shortLink: false };
+        }
+
+        if (extractor.isShortLink?.(url) && extractor.resolveShortLink) {
+            const target = extractor.normalizeUrl(await extractor.resolveShortLink(url));
+            if (target) {
+                return { ...target, shortLink: true };
+            }
+        }
+
+        throw new InvalidUrlError(`Unrecognized ${extractor.name} URL`);
+    } catch (error) {
+        throw wrapError(error, 'Error resolving URL');
+    }
+}
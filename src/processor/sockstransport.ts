@@ -0,0 +1,78 @@
+// ./src/processor/sockstransport.ts
+import http, { type Agent, type IncomingMessage } from 'node:http';
+import https from 'node:https';
+import { Response, type RequestInit } from 'node-fetch';
+
+// Same limit as fetch
+const MAX_REDIRECTS = 20;
+
+/**
+ * Send a request through a SOCKS proxy agent with node:http. Bun's fetch
+ * ignores agents and only understands HTTP proxies, its node:http honours
+ * them, so SOCKS requests take this path there.
+ * @param url Request URL
+ * @param init Request options, `agent` must be the proxy's SocksProxyAgent
+ * @returns Promise<Response> shaped like a node-fetch response
+ */
+export async function socksTransport(url: string, init: RequestInit): Promise<Response> {
+    let current = url;
+    let method = init.method ?? 'GET';
+    let body = init.body;
+
+    for (let redirects = 0; ; redirects++) {
+        const message = await send(current, method, body, init);
+        const location = message.headers.location;
+        if (init.redirect === 'manual' || !location || ![301, 302, 303, 307, 308].includes(message.statusCode ?? 0)) {
+            return toResponse(message);
+        }
+
+        message.resume();
+        if (redirects >= MAX_REDIRECTS) {
+            throw new Error(`Too many redirects fetching ${url}`);
+        }
+        if (init.redirect === 'error') {
+            throw new Error(`Redirect refused fetching ${url}`);
+        }
+        // Like fetch, 303 and POSTs redirected by 301/302 continue as a GET without body
+        if (message.statusCode === 303 || ((message.statusCode === 301 || message.statusCode === 302) && method === 'POST')) {
+            method = 'GET';
+            body = undefined;
+        }
+        current = new URL(location, current).toString();
+    }
+}
+
+function send(url: string, method: string, body: RequestInit['body'], init: RequestInit): Promise<IncomingMessage> {
+    const client = url.startsWith('https:') ? https : http;
+    return new Promise((resolve, reject) => {
+        const request = client.request(url, {
+            method,
+            headers: init.headers as Record<string, string> | undefined,
+            agent: init.agent as Agent,
+            signal: init.signal as AbortSignal | undefined
+        }, resolve);
+        request.on('error', reject);
+        if (typeof body === 'string' || Buffer.isBuffer(body)) {
+            request.end(body);
+        } else {
+            request.end();
+        }
+    });
+}
+
+function toResponse(message: IncomingMessage): Response {
+    const headers: [string, string][] = [];
+    for (const [name, value] of Object.entries(message.headers)) {
+        for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+            headers.push([name, item]);
+        }
+    }
+    // 204 and 304 can't have a body
+    const empty = message.statusCode === 204 || message.statusCode === 304;
+    if (empty) message.resume();
+    return new Response(empty ? null : message, {
+        status: message.statusCode,
+        statusText: message.statusMessage,
+        headers
+    });
+}
@@ -0,0 +1,54 @@
+// ./src/processor/thumbnails.ts
+import type { Thumbnail } from './extractvideo';
+import { httpRequest } from './http';
+
+// Existence checks per thumbnail request, the largest candidates are tried first
+const MAX_THUMBNAIL_CHECKS = 4;
+
+// Deadline shared by the checks, which run in parallel
+const CHECK_DEADLINE_MS = 1500;
+
+/**
+ * Order thumbnails largest first and drop duplicates. Thumbnails without a
+ * known size keep their relative order after the sized ones.
+ */
+export function sortThumbnails(thumbnails: Thumbnail[]): Thumbnail[] {
+    const area = (thumbnail: Thumbnail) => (thumbnail.width ?? 0) * (thumbnail.height ?? 0);
+    return thumbnails
+        .filter((thumbnail, index) => thumbnail.url &&
+            thumbnails.findIndex(other => other.url === thumbnail.url) === index)
+        .sort((a, b) => area(b) - area(a));
+}
+
+/**
+ * Pick the largest thumbnail that actually exists. Platforms list sizes that
+ * aren't generated for every video, so candidates are checked with HEAD, all
+ * at once and within a shared deadline.
+ * @param platform Platform the image URLs belong to
+ * @param thumbnails Candidates sorted best first
+ * @returns The first reachable thumbnail, the first candidate when none could be verified
+ */
+export async function pickBestThumbnail(platform: string, thumbnails: Thumbnail[]): Promise<Thumbnail | undefined> {
+    const candidates = thumbnails.slice(0, MAX_THUMBNAIL_CHECKS);
+    const controller = new AbortController();
+    const deadline = setTimeout(() => controller.abort(), CHECK_DEADLINE_MS);
+    const checks = candidates.map(thumbnail =>
+        httpRequest(platform, thumbnail.url, {
+            method: 'HEAD',
+            signal: controller.signal,
+            timeout: 0,
+            retries: 0
+        }).then(response => response.ok, () => false)
+    );
+
+    try {
+        // Awaited in order, so a larger candidate wins even if it answers later
+        for (const [index, check] of checks.entries()) {
+            if (await check) return candidates[index];
+        }
+        return thumbnails[0];
+    } finally {
+        clearTimeout(deadline);
+        controller.abort();
+    }
+}